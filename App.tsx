@@ -1,9 +1,33 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { LiveServerMessage } from "@google/genai";
-import { AppMode, ChatMessage, ChatRole, FileData, AspectRatio, VideoAspectRatio } from './types';
-import { generateText, generateImage, editImage, generateVideo, textToSpeech, connectLive } from './services/geminiService';
-import { BotIcon, CloseIcon, ImageIcon, MicIcon, SendIcon, SpeakerIcon, UserIcon, VideoIcon } from './components/Icons';
+import { FunctionCall, LiveServerMessage } from "@google/genai";
+import { AppMode, ChatMessage, ChatRole, ErrorKind, FileData, AspectRatio, ImageFormat, ImageRef, ImageRequest, GenerationSettings, Intent, Persona, ResponseConfig, PersonGeneration, Usage, VideoAspectRatio, Source, ConversationSummary, LiveSettings, LiveToolCall, LiveTurn, VideoJobState, VideoJobStatus, VideoQuality, VideoRequest, VideoResolution } from './types';
+import { generateTextStream, generateImage, classifyIntent, prepareAttachments, editImage, textToSpeech, connectLive, resetCredentials, estimateVideoCost } from './services/geminiService';
+import { classifyError, describeError } from './services/errors';
+import { cancelVideoJob, cancelVideoJobsFor, queueVideoJob, resumeVideoJobs, retryVideoJob, subscribeToVideoJobs } from './services/videoJobs';
+import { LiveSession, TextSettings } from './services/providers';
+import { createConversation, deleteConversation, getConversation, importConversation, listConversations, renameConversation, saveConversation, searchConversations } from './services/conversationStore';
+import { BotIcon, BrushIcon, ChartIcon, CloseIcon, DocumentIcon, DownloadIcon, ImageIcon, MenuIcon, MicIcon, PaperclipIcon, PencilIcon, PlusIcon, SendIcon, SlidersIcon, SpeakerIcon, StopIcon, UserIcon, VideoIcon } from './components/Icons';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { MarkdownContent } from './components/MarkdownContent';
+import { MaskEditor } from './components/MaskEditor';
+import { CommandPalette, PaletteAction } from './components/CommandPalette';
+import { PersonaManager } from './components/PersonaManager';
+import { GenerationSettingsDrawer } from './components/GenerationSettingsDrawer';
+import { LiveAudioControls, TalkMode } from './components/LiveAudioControls';
+import { LiveVideoShare } from './components/LiveVideoShare';
+import { FRAME_MIME_TYPE } from './services/frameCapture';
+import { LiveSettingsPanel } from './components/LiveSettingsPanel';
+import { supportedLiveSettings } from './services/liveSettings';
+import { liveContext } from './services/conversationContext';
+import { LiveChatActions, builtInTools, createToolRegistry, describeToolCall } from './services/liveTools';
+import { AudioCapture, CAPTURE_MIME_TYPE, canSelectOutput, createSilenceGate, listAudioDevices, setOutputDevice, startCapture } from './services/audioCapture';
+import { UsageDashboard } from './components/UsageDashboard';
+import { budgetWarning, formatCost, recordUsage } from './services/usage';
+import { deletePersona, importPersonas, listPersonas, savePersona } from './services/personaStore';
+import { COMMANDS, CommandError, MODE_NAMES, commandBeingTyped, completeCommand, parseCommand, toImageRequest, toVideoOptions } from './services/commands';
+import { downloadConversation, EXPORT_FORMAT_LABELS, ExportFormat, liveTranscriptToMessages, parseConversationJson } from './services/conversationExport';
+import { ACCEPTED_TYPES, MAX_ATTACHMENTS, attachmentRejection, fileDataSize, formatFileSize, isAudio, isImage, isVideo, toAttachment } from './services/attachments';
 
 // --- Helper Functions ---
 const fileToBase64 = (file: File): Promise<FileData> => {
@@ -22,6 +46,11 @@ const fileToBase64 = (file: File): Promise<FileData> => {
   });
 };
 
+const dataUrlToFileData = (dataUrl: string, name: string): FileData => {
+  const [header, base64] = dataUrl.split(',');
+  return { base64, mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/png', name };
+};
+
 function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -61,194 +90,989 @@ function encode(bytes: Uint8Array) {
 }
 
 
+type RecoveryAction = 'retry' | 'reselect-key' | 'rephrase';
+
+interface Recovery {
+  // The original prompt, offered back to the user for rephrasing.
+  prompt: string;
+  retry: () => void;
+}
+
+const RECOVERY_ACTIONS: Record<ErrorKind, RecoveryAction[]> = {
+  [ErrorKind.AUTH]: ['reselect-key'],
+  [ErrorKind.QUOTA]: ['retry'],
+  [ErrorKind.SAFETY]: ['rephrase'],
+  [ErrorKind.NETWORK]: ['retry'],
+  [ErrorKind.TIMEOUT]: ['retry'],
+  [ErrorKind.SERVER]: ['retry'],
+  [ErrorKind.INVALID_ARGUMENT]: ['rephrase', 'retry'],
+  [ErrorKind.UNKNOWN]: ['retry'],
+};
+
+const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  'retry': 'Retry',
+  'reselect-key': 'Re-select key',
+  'rephrase': 'Rephrase',
+};
+
+// An image that the next prompt edits, and where it came from in the chat.
+interface EditTarget extends ImageRef {
+  file: FileData;
+}
+
+// The versions an edited image went through, oldest first, ending with `msg` itself.
+const versionChain = (messages: ChatMessage[], msg: ChatMessage) => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const chain: { ref: ImageRef, image: string }[] = [];
+  let ref: ImageRef | undefined = { messageId: msg.id, index: 0 };
+  while (ref && !chain.some(v => v.ref.messageId === ref!.messageId && v.ref.index === ref!.index)) {
+    const current = byId.get(ref.messageId);
+    const attachment = current?.attachments?.[ref.index];
+    const image = attachment && isImage(attachment) ? attachment.url : '';
+    if (!image) break;
+    chain.unshift({ ref, image });
+    ref = current.editOf?.[0];
+  }
+  return chain;
+};
+
+// Whether a reply to `msg` can point at moments in its media.
+const hasTimedMedia = (msg: ChatMessage) =>
+  msg.role === ChatRole.USER && !!msg.attachments?.some(a => isVideo(a) || isAudio(a));
+
+const INTENT_LABELS: Record<Intent, string> = { ask: 'Ask', edit: 'Edit', animate: 'Animate', generate: 'Generate' };
+const INTENT_PLACEHOLDERS: Record<Exclude<Intent, 'edit'>, string> = {
+  ask: "Type a message, or / for commands...",
+  animate: "Describe the video to make...",
+  generate: "Describe the image to generate...",
+};
+
+// How long the input has to stay unchanged before the auto-router classifies it.
+const ROUTE_DELAY = 700;
+
+// Options for images and videos made straight from the input bar.
+const QUICK_IMAGE_OPTIONS: Omit<ImageRequest, 'prompt'> = { aspectRatio: '1:1', numberOfImages: 1, outputMimeType: 'image/jpeg', personGeneration: 'allow_adult' };
+const QUICK_VIDEO_OPTIONS: Omit<VideoRequest, 'prompt' | 'image'> = { aspectRatio: '16:9', quality: 'fast', resolution: '720p', numberOfVideos: 1 };
+
+// The actions that make sense for what is attached. Animating takes at most one
+// image, and generating starts from text alone.
+const availableIntents = (files: FileData[], editTargets: EditTarget[]): Intent[] => {
+  const images = files.filter(isImage).length + editTargets.length;
+  const onlyImages = files.every(isImage);
+  return [
+    'ask',
+    ...(images > 0 ? ['edit' as const] : []),
+    ...(onlyImages && images <= 1 ? ['animate' as const] : []),
+    ...(files.length === 0 && editTargets.length === 0 ? ['generate' as const] : []),
+  ];
+};
+
+// A generated video the user chose to continue.
+interface VideoSource {
+  uri: string;
+  video: string;
+}
+
+const welcomeMessage = (): ChatMessage => (
+  { id: '1', role: ChatRole.MODEL, text: 'Hello! I am your all-in-one Gemini assistant. How can I help you today?' }
+);
+
 // --- Main App Component ---
 export default function App() {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', role: ChatRole.MODEL, text: 'Hello! I am your all-in-one Gemini assistant. How can I help you today?' }
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([welcomeMessage()]);
   const [input, setInput] = useState('');
   const [mode, setMode] = useState<AppMode>(AppMode.FLASH);
   const [isLoading, setIsLoading] = useState(false);
-  const [attachedFile, setAttachedFile] = useState<FileData | null>(null);
+  const [attachedFiles, setAttachedFiles] = useState<FileData[]>([]);
+  // Why the last files the user tried to attach were refused.
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [streamController, setStreamController] = useState<AbortController | null>(null);
   
   const [isImageGenModalOpen, setIsImageGenModalOpen] = useState(false);
   const [isVideoGenModalOpen, setIsVideoGenModalOpen] = useState(false);
+  const [videoToExtend, setVideoToExtend] = useState<VideoSource | null>(null);
+  const [editTargets, setEditTargets] = useState<EditTarget[]>([]);
+  // The image open in the mask editor; attached images have no place in the chat yet.
+  const [maskTarget, setMaskTarget] = useState<{ file: FileData, ref?: ImageRef } | null>(null);
+  // What the next message does, as last chosen by the user.
+  const [intent, setIntent] = useState<Intent>('ask');
+  const [intentPicked, setIntentPicked] = useState(false);
+  const [autoRoute, setAutoRoute] = useState(false);
+  // The auto-router's choice and the input (text and attachment types) it was made for.
+  const [routed, setRouted] = useState<{ key: string, intent: Intent } | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
   const [isLiveMode, setIsLiveMode] = useState(false);
+  // Chosen in the settings panel before a Live session starts.
+  const [liveSettings, setLiveSettings] = useState<LiveSettings | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // The active conversation's persona.
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
+  // The active conversation's advanced generation settings.
+  const [settings, setSettings] = useState<GenerationSettings>({});
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  // Video and audio players by message id, for seeking to timestamps in replies.
+  const mediaElementsRef = useRef(new Map<string, HTMLMediaElement>());
+  const searchQueryRef = useRef('');
+  const initializedRef = useRef(false);
+  // Set when a conversation is loaded so that loading it doesn't count as an edit.
+  const skipSaveRef = useRef(true);
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+  // Recovery actions for failed messages; not persisted, so they end with the session.
+  const recoveriesRef = useRef(new Map<string, Recovery>());
+  const activeConversationIdRef = useRef<string | null>(null);
+  activeConversationIdRef.current = activeConversationId;
+  const attachedFilesRef = useRef(attachedFiles);
+  attachedFilesRef.current = attachedFiles;
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const refreshConversations = useCallback(async () => {
+    setConversations(await searchConversations(searchQueryRef.current));
+  }, []);
+
+  const handleSearch = useCallback((query: string) => {
+    searchQueryRef.current = query;
+    refreshConversations();
+  }, [refreshConversations]);
+
+  const openConversation = async (id: string) => {
+    await pendingSaveRef.current?.();
+    const conversation = await getConversation(id);
+    if (!conversation) return;
+    skipSaveRef.current = true;
+    setActiveConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setMode(conversation.mode);
+    setPersonaId(conversation.personaId ?? null);
+    setSettings(conversation.settings ?? {});
+    setAttachedFiles([]);
+    setEditTargets([]);
+  };
+
+  const handleNewConversation = async () => {
+    await pendingSaveRef.current?.();
+    const conversation = await createConversation(mode, [welcomeMessage()], personaId ?? undefined);
+    skipSaveRef.current = true;
+    setActiveConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setSettings({});
+    setAttachedFiles([]);
+    setEditTargets([]);
+    await refreshConversations();
+  };
+
+  // Imports a JSON export as a new conversation and opens it.
+  const handleImportConversation = async (file: File) => {
+    try {
+      const conversation = await importConversation(parseConversationJson(await file.text()));
+      await refreshConversations();
+      await openConversation(conversation.id);
+    } catch (error) {
+      addMessage({ role: ChatRole.SYSTEM, text: `Couldn't import ${file.name}: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    await renameConversation(id, title);
+    await refreshConversations();
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (id === activeConversationId) pendingSaveRef.current = null;
+    await cancelVideoJobsFor(id);
+    await deleteConversation(id);
+    if (id === activeConversationId) {
+      const [next] = await listConversations();
+      if (next) {
+        await openConversation(next.id);
+      } else {
+        await handleNewConversation();
+      }
+    }
+    await refreshConversations();
+  };
+
+  // Video jobs outlive the conversation they were started in; only updates for
+  // the open conversation touch the in-memory messages.
+  useEffect(() => subscribeToVideoJobs((conversationId, messageId, update) => {
+    if (conversationId === activeConversationIdRef.current) {
+      updateMessage(messageId, update);
+    }
+  }), []);
+
+  useEffect(() => {
+    if (initializedRef.current) return;
+    initializedRef.current = true;
+    (async () => {
+      try {
+        const [latest] = await listConversations();
+        if (latest) {
+          await openConversation(latest.id);
+          await refreshConversations();
+        } else {
+          await handleNewConversation();
+        }
+      } catch (error) {
+        console.error("Error loading conversations:", error);
+      }
+      resumeVideoJobs().catch(error => console.error("Error resuming video jobs:", error));
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!activeConversationId) return;
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false;
+      return;
+    }
+    const save = async () => {
+      pendingSaveRef.current = null;
+      try {
+        await saveConversation(activeConversationId, { messages, mode, personaId: personaId ?? undefined, settings });
+        await refreshConversations();
+      } catch (error) {
+        console.error("Error saving conversation:", error);
+      }
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, 500);
+    return () => clearTimeout(timer);
+  }, [messages, mode, personaId, settings, activeConversationId, refreshConversations]);
+
+  const activePersona = personas.find(p => p.id === personaId) ?? null;
+  // The conversation's own settings take precedence over its persona's.
+  const textSettings: TextSettings = {
+    ...(activePersona && { systemInstruction: activePersona.systemPrompt.trim() || undefined, temperature: activePersona.temperature }),
+    ...settings,
+    ...(settings.stopSequences && { stopSequences: settings.stopSequences.filter(Boolean) }),
+  };
+
+  const refreshPersonas = async () => setPersonas(await listPersonas());
+
+  useEffect(() => {
+    refreshPersonas().catch(error => console.error("Error loading personas:", error));
+  }, []);
+
+  // Choosing a persona also switches to its default mode.
+  const handleSelectPersona = (id: string | null) => {
+    setPersonaId(id);
+    const persona = personas.find(p => p.id === id);
+    if (persona) setMode(persona.mode);
+  };
+
   const addMessage = (message: Omit<ChatMessage, 'id'>) => {
-    setMessages(prev => [...prev, { ...message, id: Date.now().toString() }]);
+    const id = crypto.randomUUID();
+    setMessages(prev => [...prev, { ...message, id }]);
+    return id;
   };
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const fileData = await fileToBase64(file);
-      setAttachedFile(fileData);
+  // Attaches what it can and explains what it can't. The limit is checked
+  // against a ref updated as files are added, since a drop read while another
+  // is still being read would see a stale list.
+  const addFiles = async (files: File[]) => {
+    const accepted: FileData[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      const reason = attachmentRejection(file, attachedFilesRef.current.length + accepted.length);
+      if (reason) rejected.push(`${file.name}: ${reason}`);
+      else accepted.push(await fileToBase64(file));
     }
+    const room = Math.max(0, MAX_ATTACHMENTS - attachedFilesRef.current.length);
+    for (const file of accepted.slice(room)) rejected.push(`${file.name}: a message can carry at most ${MAX_ATTACHMENTS} attachments.`);
+    const added = accepted.slice(0, room);
+    attachedFilesRef.current = [...attachedFilesRef.current, ...added];
+    setAttachedFiles(prev => [...prev, ...added]);
+    setAttachmentError(rejected.length ? rejected.join('\n') : null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
      if (event.target) {
       event.target.value = ''; // Reset file input
     }
+    await addFiles(files);
   };
 
-  const handleSubmit = async () => {
-    if (isLoading || (!input.trim() && !attachedFile)) return;
-    
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    await addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const updateMessage = (id: string, update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...update } : msg));
+  };
+
+  const addLoadingMessage = (text = '') => {
+    const id = crypto.randomUUID();
+    setMessages(prev => [...prev, { id, role: ChatRole.MODEL, text, isLoading: true }]);
+    return id;
+  };
+
+  // Shows a classified error in the placeholder and remembers how to recover from it.
+  const failMessage = (id: string, error: unknown, context: string, recovery: Recovery) => {
+    console.error(`Error ${context}:`, error);
+    const modelError = classifyError(error);
+    const detail = modelError.kind === ErrorKind.UNKNOWN ? modelError.message : describeError(modelError);
+    recoveriesRef.current.set(id, recovery);
+    updateMessage(id, { text: `Error ${context}: ${detail}`, isLoading: false, error: modelError.kind });
+  };
+
+  // Logs a call against the open conversation. The log is best effort and never fails the call.
+  const trackUsage = (usage: Usage) => {
+    recordUsage(usage, activeConversationIdRef.current ?? undefined)
+      .catch(error => console.error("Error recording usage:", error));
+  };
+
+  const streamReply = async (loadingMessageId: string, userInput: string, currentFiles: FileData[], history: ChatMessage[], userMessageId?: string, replyMode = mode) => {
     setIsLoading(true);
-    const userInput = input;
-    const currentFile = attachedFile;
-    setInput('');
-    setAttachedFile(null);
+    updateMessage(loadingMessageId, { text: '', error: undefined, isLoading: true });
 
-    addMessage({ role: ChatRole.USER, text: userInput, image: currentFile?.mimeType.startsWith('image/') ? `data:${currentFile.mimeType};base64,${currentFile.base64}` : undefined });
-    
-    const loadingMessageId = Date.now().toString();
-    setMessages(prev => [...prev, { id: loadingMessageId, role: ChatRole.MODEL, text: '', isLoading: true }]);
+    const controller = new AbortController();
+    setStreamController(controller);
+    let text = '';
+    let sources: Source[] | undefined;
+    let config: ResponseConfig | undefined;
+    let thoughts = '';
+    let thoughtsTokenCount: number | undefined;
+    let usage: Usage | undefined;
+    let files = currentFiles;
+
+    // The partial reply is kept as history; with nothing received, only a
+    // notice is left, which isn't sent back to the model.
+    const keepPartialReply = () => updateMessage(loadingMessageId, text
+      ? { text, sources, config, ...(thoughts && { thoughts }), usage, isLoading: false }
+      : { role: ChatRole.SYSTEM, text: 'Stopped before the model replied.', isLoading: false });
 
     try {
-      let response;
-      if (currentFile && currentFile.mimeType.startsWith('image/')) {
-        response = await generateText(userInput, AppMode.FLASH, currentFile); // Force flash for image analysis
-      } else {
-        response = await generateText(userInput, mode);
+      if (files.length > 0) {
+        files = await prepareAttachments(files);
+        // Remember uploads on the message, so later turns can reference them.
+        if (userMessageId) {
+          const uploaded = files;
+          setMessages(prev => prev.map(msg => msg.id === userMessageId && msg.attachments
+            ? { ...msg, attachments: msg.attachments.map((a, i) => uploaded[i]?.upload ? { ...a, upload: uploaded[i].upload } : a) }
+            : msg));
+        }
+      }
+      // Force flash for attachment analysis
+      const stream = files.length > 0
+        ? await generateTextStream(userInput, AppMode.FLASH, files, history, textSettings, controller.signal)
+        : await generateTextStream(userInput, replyMode, [], history, textSettings, controller.signal);
+
+      for await (const chunk of stream) {
+        text += chunk.text;
+        sources = chunk.sources ?? sources;
+        config = chunk.config ?? config;
+        thoughts += chunk.thoughts ?? '';
+        thoughtsTokenCount = chunk.thoughtsTokenCount ?? thoughtsTokenCount;
+        usage = chunk.usage ?? usage;
+        updateMessage(loadingMessageId, { text, ...(thoughts && { thoughts }) });
       }
-      
-      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(chunk => ({
-        uri: chunk.web?.uri || chunk.maps?.uri || '',
-        title: chunk.web?.title || chunk.maps?.title || '',
-      })).filter(s => s.uri);
 
-      setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, text: response.text, sources, isLoading: false } : msg));
+      // A stopped stream ends early, with the usage of what was received.
+      if (controller.signal.aborted) keepPartialReply();
+      else updateMessage(loadingMessageId, { text, sources, config, ...(thoughts && { thoughts }), thoughtsTokenCount, usage, isLoading: false });
+      if (usage) trackUsage(usage);
     } catch (error) {
-      console.error("Error generating response:", error);
-      const errorText = error instanceof Error ? error.message : "An unknown error occurred.";
-      setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, text: `Error: ${errorText}`, isLoading: false } : msg));
+      if (controller.signal.aborted) {
+        keepPartialReply();
+      } else {
+        failMessage(loadingMessageId, error, 'generating response', {
+          prompt: userInput,
+          retry: () => streamReply(loadingMessageId, userInput, files, history, userMessageId, replyMode),
+        });
+      }
     } finally {
+      setStreamController(null);
       setIsLoading(false);
     }
   };
-  
-  const handleImageGeneration = async (prompt: string, aspectRatio: AspectRatio) => {
+
+  const intents = availableIntents(attachedFiles, editTargets);
+  const routeTypes = [...attachedFiles, ...editTargets.map(target => target.file)].map(file => file.mimeType);
+  const routeKey = [input.trim(), ...routeTypes].join('\n');
+  const isAutoIntent = autoRoute && !intentPicked && routed?.key === routeKey;
+  const chosenIntent = isAutoIntent ? routed!.intent : intent;
+  const effectiveIntent = intents.includes(chosenIntent) ? chosenIntent : 'ask';
+
+  const routeIntent = async () => {
+    const key = routeKey;
+    setIsRouting(true);
+    try {
+      setRouted({ key, intent: (await classifyIntent(input.trim(), routeTypes)) ?? 'ask' });
+    } catch (error) {
+      console.error("Error choosing an action:", error);
+      setRouted({ key, intent: 'ask' });
+    } finally {
+      setIsRouting(false);
+    }
+  };
+
+  // Routes the input once the user pauses typing, so the choice shows before sending.
+  useEffect(() => {
+    if (!autoRoute || intentPicked || !input.trim() || parseCommand(input) || routed?.key === routeKey) return;
+    const timer = setTimeout(routeIntent, ROUTE_DELAY);
+    return () => clearTimeout(timer);
+  }, [routeKey, autoRoute, intentPicked, routed]);
+
+  const handleIntentChange = (next: Intent) => {
+    setIntent(next);
+    setIntentPicked(true);
+  };
+
+  const handleSend = async () => {
+    const prompt = input.trim();
+    if (isLoading || isRouting) return;
+    if (parseCommand(prompt)) {
+      await runCommand(prompt);
+      return;
+    }
+    // A message sent before the router caught up is routed first, and only
+    // sent once the user has seen (and kept) the choice.
+    if (autoRoute && !intentPicked && prompt && !isAutoIntent) {
+      await routeIntent();
+      return;
+    }
+    if (!prompt && (effectiveIntent === 'edit' || effectiveIntent === 'generate')) return;
+    // A picked action applies to one message; the next starts from Ask or the router's choice.
+    setIntent('ask');
+    setIntentPicked(false);
+    switch (effectiveIntent) {
+      case 'edit':
+        setInput('');
+        await handleImageEditing(prompt);
+        break;
+      case 'animate':
+        await handleAnimate(prompt);
+        break;
+      case 'generate':
+        setInput('');
+        await handleImageGeneration({ ...QUICK_IMAGE_OPTIONS, prompt });
+        break;
+      default:
+        await handleSubmit();
+    }
+  };
+
+  const handleSubmit = async (userInput = input, replyMode = mode) => {
+    if (isLoading || (!userInput.trim() && attachedFiles.length === 0)) return;
+    
+    const currentFiles = attachedFiles;
+    const history = messages;
+    setInput('');
+    setAttachedFiles([]);
+    setAttachmentError(null);
+
+    const userMessageId = addMessage({
+      role: ChatRole.USER,
+      text: userInput,
+      ...(currentFiles.length > 0 && { attachments: currentFiles.map(toAttachment) }),
+    });
+    await streamReply(addLoadingMessage(), userInput, currentFiles, history, userMessageId, replyMode);
+  };
+
+  const insertCommand = (name: string) => {
+    setInput(`/${name} `);
+    textareaRef.current?.focus();
+  };
+
+  // Runs a slash command typed in the input bar. Mistakes are explained in the
+  // chat, and the command is left in the input to be fixed.
+  const runCommand = async (text: string) => {
+    const command = parseCommand(text);
+    if (!command) return;
+    // The palette can run commands while a reply is still coming in.
+    if (isLoading) {
+      addMessage({ role: ChatRole.SYSTEM, text: `Wait for the current reply to finish before running /${command.name}.` });
+      return;
+    }
+    setInput('');
+    try {
+      switch (command.name) {
+        case 'image':
+          await handleImageGeneration(toImageRequest(command, QUICK_IMAGE_OPTIONS));
+          break;
+        case 'video': {
+          const options = toVideoOptions(command, QUICK_VIDEO_OPTIONS);
+          if (!command.text && !attachedFiles.some(isImage) && editTargets.length === 0) {
+            throw new CommandError('Describe the video after /video, or attach an image to animate.');
+          }
+          if (!await handleAnimate(command.text, options)) setInput(text);
+          break;
+        }
+        case 'edit':
+          if (!command.text) throw new CommandError('Describe the edit after /edit.');
+          await handleImageEditing(command.text);
+          break;
+        case 'mode': {
+          const next = MODE_NAMES[command.text.toLowerCase()];
+          if (!next) throw new CommandError(`Choose a mode: ${Object.keys(MODE_NAMES).join(', ')}.`);
+          setMode(next);
+          break;
+        }
+        case 'search':
+          if (!command.text) throw new CommandError('Type what to search for after /search.');
+          // Messages with attachments are answered without Search, so it would be silently skipped.
+          if (attachedFiles.length > 0) throw new CommandError('/search can\'t use attachments. Remove them, or send the message without /search.');
+          await handleSubmit(command.text, AppMode.SEARCH);
+          break;
+        case 'tts': {
+          const lastReply = [...messages].reverse().find(m => m.role === ChatRole.MODEL && m.text && !m.isLoading);
+          const speech = command.text || lastReply?.text;
+          if (!speech) throw new CommandError('There is no reply to read aloud yet.');
+          await handlePlayAudio(speech);
+          break;
+        }
+        case 'clear':
+          await handleNewConversation();
+          break;
+        case 'export': {
+          const format = (command.text.toLowerCase() || 'md') as ExportFormat;
+          if (!(format in EXPORT_FORMAT_LABELS)) throw new CommandError(`Export as ${Object.keys(EXPORT_FORMAT_LABELS).join(', ')}.`);
+          const title = conversations.find(c => c.id === activeConversationId)?.title ?? 'Conversation';
+          await downloadConversation({ title, mode, personaId: personaId ?? undefined, settings, messages }, format);
+          break;
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof CommandError)) throw error;
+      setInput(text);
+      addMessage({ role: ChatRole.SYSTEM, text: error.message });
+    }
+  };
+
+  // The palette offers every command; those that take text are started in the input.
+  const paletteActions: PaletteAction[] = [
+    ...COMMANDS.flatMap((command): PaletteAction[] => {
+      if (command.name === 'mode') {
+        return Object.keys(MODE_NAMES).map(name => ({
+          id: `mode-${name}`, label: `Switch to ${name} mode`, hint: `/mode ${name}`, run: () => runCommand(`/mode ${name}`),
+        }));
+      }
+      if (command.name === 'export') {
+        return (Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => ({
+          id: `export-${format}`, label: `Export as ${EXPORT_FORMAT_LABELS[format]}`, hint: `/export ${format}`, run: () => runCommand(`/export ${format}`),
+        }));
+      }
+      return [{
+        id: command.name,
+        label: command.description,
+        hint: command.takesText ? command.usage : `/${command.name}`,
+        run: () => command.takesText ? insertCommand(command.name) : runCommand(`/${command.name}`),
+      }];
+    }),
+    { id: 'image-options', label: 'Generate an image with all options', run: () => setIsImageGenModalOpen(true) },
+    { id: 'video-options', label: 'Generate a video with all options', run: () => { setVideoToExtend(null); setIsVideoGenModalOpen(true); } },
+    { id: 'usage', label: 'Show usage and costs', run: () => setIsUsageOpen(true) },
+  ];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Resolves with whether the images made it into the chat.
+  const generateImageInto = async (loadingMessageId: string, request: ImageRequest): Promise<boolean> => {
      setIsLoading(true);
-     addMessage({ role: ChatRole.USER, text: `Generate an image: "${prompt}" with aspect ratio ${aspectRatio}`});
-     const loadingMessageId = Date.now().toString();
-     setMessages(prev => [...prev, { id: loadingMessageId, role: ChatRole.MODEL, text: '', isLoading: true }]);
+     updateMessage(loadingMessageId, { text: '', error: undefined, isLoading: true });
      try {
-       const imageBytes = await generateImage(prompt, aspectRatio);
-       const imageUrl = `data:image/jpeg;base64,${imageBytes}`;
-       setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, image: imageUrl, text: `Here is the generated image for: "${prompt}"`, isLoading: false } : msg));
+       const { images: results, usage } = await generateImage(request);
+       trackUsage(usage);
+       const attachments = results.map((result, i) => toAttachment({
+         ...result,
+         name: `image-${i + 1}.${result.mimeType === 'image/png' ? 'png' : 'jpg'}`,
+       }));
+       const missing = request.numberOfImages - attachments.length;
+       const text = `Here ${attachments.length > 1 ? 'are the generated images' : 'is the generated image'} for: "${request.prompt}"`
+         + (missing > 0 ? `\n\n${missing} of ${request.numberOfImages} variants were filtered by safety settings.` : '');
+       updateMessage(loadingMessageId, { attachments, text, usage, isLoading: false });
+       return attachments.length > 0;
      } catch (error) {
-        console.error("Error generating image:", error);
-        const errorText = error instanceof Error ? error.message : "An unknown error occurred.";
-        setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, text: `Error generating image: ${errorText}`, isLoading: false } : msg));
+        failMessage(loadingMessageId, error, 'generating image', {
+          prompt: request.prompt,
+          retry: () => generateImageInto(loadingMessageId, request),
+        });
+        return false;
      } finally {
         setIsLoading(false);
      }
   };
+
+  const handleImageGeneration = async (request: ImageRequest) => {
+     const { prompt, aspectRatio, numberOfImages } = request;
+     const variants = numberOfImages > 1 ? `${numberOfImages} images` : 'an image';
+     addMessage({ role: ChatRole.USER, text: `Generate ${variants}: "${prompt}" with aspect ratio ${aspectRatio}`});
+     return generateImageInto(addLoadingMessage(), request);
+  };
+
+  const attachImage = (file: FileData) => {
+    if (attachedFiles.length >= MAX_ATTACHMENTS) {
+      setAttachmentError(`${file.name}: a message can carry at most ${MAX_ATTACHMENTS} attachments.`);
+      return;
+    }
+    setAttachedFiles(prev => [...prev, file]);
+    textareaRef.current?.focus();
+  };
+
+  // Editing an image replaces the current targets; adding one combines it with them.
+  const handleEditImage = (target: EditTarget, combine = false) => {
+    setEditTargets(prev => combine
+      ? [...prev.filter(t => t.messageId !== target.messageId || t.index !== target.index), target]
+      : [target]);
+    handleIntentChange('edit');
+    textareaRef.current?.focus();
+  };
+
+  const editImageInto = async (loadingMessageId: string, prompt: string, sources: EditTarget[], mask?: FileData) => {
+      setIsLoading(true);
+      updateMessage(loadingMessageId, { text: '', error: undefined, isLoading: true });
+      try {
+          const { base64, usage } = await editImage(prompt, sources.map(source => source.file), mask);
+          trackUsage(usage);
+          const edited: FileData = { base64, mimeType: 'image/png', name: 'edited.png' };
+          updateMessage(loadingMessageId, {
+            attachments: [toAttachment(edited)],
+            text: `Here is the edited image for: "${prompt}"`,
+            isLoading: false,
+            editOf: sources.map(({ messageId, index }) => ({ messageId, index })),
+            masked: mask ? true : undefined,
+            usage,
+          });
+      } catch (error) {
+          failMessage(loadingMessageId, error, 'editing image', {
+            prompt,
+            retry: () => editImageInto(loadingMessageId, prompt, sources, mask),
+          });
+      } finally {
+          setIsLoading(false);
+      }
+  };
   
+  // Edits the current targets together with any attached images.
   const handleImageEditing = async (prompt: string) => {
-      if (!attachedFile || !attachedFile.mimeType.startsWith('image/')) {
+      const currentFiles = attachedFiles.filter(isImage);
+      if (editTargets.length === 0 && currentFiles.length === 0) {
           addMessage({ role: ChatRole.SYSTEM, text: "Please attach an image first to edit it." });
           return;
       }
-      setIsLoading(true);
-      const currentFile = attachedFile;
-      setAttachedFile(null);
+      // Other attachments can't be edited, so they stay attached for the next message.
+      const kept = attachedFiles.filter(file => !isImage(file));
+      const targets = editTargets;
+      setAttachedFiles(kept);
+      setAttachmentError(kept.length ? `${kept.map(file => file.name).join(', ')}: not an image, so left out of the edit.` : null);
+      setEditTargets([]);
 
-      addMessage({ role: ChatRole.USER, text: `Edit image: "${prompt}"`, image: `data:${currentFile.mimeType};base64,${currentFile.base64}`});
-      const loadingMessageId = Date.now().toString();
-      setMessages(prev => [...prev, { id: loadingMessageId, role: ChatRole.MODEL, text: '', isLoading: true }]);
-      
-      try {
-          const editedImageBytes = await editImage(prompt, currentFile);
-          const imageUrl = `data:image/png;base64,${editedImageBytes}`;
-          setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, image: imageUrl, text: `Here is the edited image for: "${prompt}"`, isLoading: false } : msg));
-      } catch (error) {
-          console.error("Error editing image:", error);
-          const errorText = error instanceof Error ? error.message : "An unknown error occurred.";
-          setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, text: `Error editing image: ${errorText}`, isLoading: false } : msg));
-      } finally {
-          setIsLoading(false);
+      const count = targets.length + currentFiles.length;
+      const userMessageId = addMessage({
+        role: ChatRole.USER,
+        text: count > 1 ? `Combine ${count} images: "${prompt}"` : `Edit image: "${prompt}"`,
+        ...(currentFiles.length > 0 && { attachments: currentFiles.map(toAttachment) }),
+      });
+      const sources = [...targets, ...currentFiles.map((file, index) => ({ messageId: userMessageId, index, file }))];
+      await editImageInto(addLoadingMessage(), prompt, sources);
+  };
+
+  const handleMaskedEdit = async (prompt: string, mask: FileData) => {
+      if (!maskTarget) return;
+      const { file, ref } = maskTarget;
+      let source: EditTarget;
+      if (ref) {
+        addMessage({ role: ChatRole.USER, text: `Edit the selected region: "${prompt}"` });
+        source = { ...ref, file };
+      } else {
+        setAttachedFiles(prev => prev.filter(f => f !== file));
+        const userMessageId = addMessage({ role: ChatRole.USER, text: `Edit the selected region: "${prompt}"`, attachments: [toAttachment(file)] });
+        source = { messageId: userMessageId, index: 0, file };
       }
+      setEditTargets([]);
+      await editImageInto(addLoadingMessage(), prompt, [source], mask);
   };
 
-  const handleVideoGeneration = async (prompt: string | null, image: FileData | null, aspectRatio: VideoAspectRatio) => {
-    setIsLoading(true);
-    let userMessage = "Generate a video";
+  // Plays the media a reply talks about (the first video or audio of the latest
+  // user message with any) from `seconds`.
+  const handleSeek = (replyId: string, seconds: number) => {
+    const index = messages.findIndex(m => m.id === replyId);
+    const source = messages.slice(0, index).reverse().find(hasTimedMedia);
+    const mediaIndex = source?.attachments?.findIndex(a => isVideo(a) || isAudio(a)) ?? -1;
+    const element = source && mediaElementsRef.current.get(`${source.id}/${mediaIndex}`);
+    if (!element) return;
+    element.currentTime = seconds;
+    element.play().catch(() => {});
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Reverting appends the old version as the newest one, so nothing is lost.
+  const handleRevertImage = (ref: ImageRef, image: string) => {
+      const file = dataUrlToFileData(image, 'reverted.png');
+      const id = addMessage({ role: ChatRole.MODEL, text: 'Reverted to an earlier version of the image.', attachments: [toAttachment(file)], editOf: [ref] });
+      setEditTargets([{ messageId: id, index: 0, file }]);
+  };
+
+  // Turns the attached (or targeted) image, or just the prompt, into a video.
+  // Asks before going over the daily budget; resolves with whether to go ahead.
+  const confirmVideoCost = async (request: VideoRequest) => {
+    try {
+      const warning = await budgetWarning(await estimateVideoCost(request));
+      return !warning || window.confirm(`${warning} Generate the video anyway?`);
+    } catch (error) {
+      console.error("Error checking the budget:", error);
+      return true;
+    }
+  };
+
+  // The budget is checked before the input is cleared, so declining keeps it.
+  // Resolves with false when the video wasn't started.
+  const handleAnimate = async (prompt: string, options = QUICK_VIDEO_OPTIONS) => {
+    const image = attachedFiles.find(isImage) ?? editTargets[0]?.file ?? null;
+    if (!prompt && !image) return false;
+    const request = { ...options, prompt: prompt || null, image };
+    if (!await confirmVideoCost(request)) return false;
+    setInput('');
+    setAttachedFiles([]);
+    setAttachmentError(null);
+    setEditTargets([]);
+    await startVideoGeneration(request);
+    return true;
+  };
+
+  // Resolves with false when the user declines, so the form can stay open.
+  const handleVideoGeneration = async (request: VideoRequest) => {
+    if (!await confirmVideoCost(request)) return false;
+    await startVideoGeneration(request);
+    return true;
+  };
+
+  const startVideoGeneration = async (request: VideoRequest) => {
+    const { prompt, image, lastFrame, referenceImages, extendVideoUri } = request;
+    let userMessage = extendVideoUri ? "Extend the video" : "Generate a video";
     if (prompt) userMessage += `: "${prompt}"`;
-    if (image) userMessage += ` from the attached image.`;
+    if (image) userMessage += lastFrame ? ` from the attached image to ${lastFrame.name}.` : ` from the attached image.`;
+    if (referenceImages?.length) userMessage += ` Reference images: ${referenceImages.map(ref => ref.name).join(', ')}.`;
     
-    addMessage({ role: ChatRole.USER, text: userMessage, image: image ? `data:${image.mimeType};base64,${image.base64}` : undefined });
-    const loadingMessageId = Date.now().toString();
-    setMessages(prev => [...prev, { id: loadingMessageId, role: ChatRole.MODEL, text: '📹 Starting video generation... This may take a few minutes. Please wait.', isLoading: true }]);
-    
-    try {
-        const videoUrl = await generateVideo(prompt, image, aspectRatio);
-        setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, video: videoUrl, text: `Here is your generated video.`, isLoading: false } : msg));
-    } catch(e) {
-        console.error("Error generating video:", e);
-        const errorText = e instanceof Error ? e.message : "An unknown error occurred during video generation.";
-        setMessages(prev => prev.map(msg => msg.id === loadingMessageId ? { ...msg, text: `Error: ${errorText}`, isLoading: false } : msg));
-    } finally {
-        setIsLoading(false);
+    const inputs = [image, lastFrame, ...(referenceImages ?? [])].filter((file): file is FileData => !!file);
+    // The inputs went to Veo, not to the chat model, so they aren't resent as history.
+    const attachments = inputs.map(file => ({ ...toAttachment(file), displayOnly: true }));
+    addMessage({ role: ChatRole.USER, text: userMessage, ...(attachments.length > 0 && { attachments }) });
+    const loadingMessageId = addLoadingMessage();
+    if (!activeConversationId) {
+      updateMessage(loadingMessageId, { text: 'Error generating video: conversation storage is unavailable.', isLoading: false, error: ErrorKind.UNKNOWN });
+      return;
     }
+    await queueVideoJob({ conversationId: activeConversationId, messageId: loadingMessageId, request });
+  };
+
+  // Failed video jobs can be retried from their message alone, even after a reload.
+  const recoveryFor = (msg: ChatMessage): Recovery | undefined =>
+    recoveriesRef.current.get(msg.id) ?? (msg.videoJob?.status === VideoJobStatus.FAILED
+      ? { prompt: msg.videoJob.prompt ?? '', retry: () => retryVideoJob(msg.videoJob!.id) }
+      : undefined);
+
+  const handleRecover = async (msg: ChatMessage, action: RecoveryAction) => {
+    const recovery = recoveryFor(msg);
+    if (!recovery) return;
+    if (action === 'rephrase') {
+      setInput(recovery.prompt);
+      return;
+    }
+    if (action === 'reselect-key') {
+      await (window as any).aistudio?.openSelectKey();
+      resetCredentials();
+    }
+    recoveriesRef.current.delete(msg.id);
+    recovery.retry();
   };
   
+  // Rejects when the speech can't be generated.
+  const speak = async (text: string, voice?: string) => {
+      const { audio: audioData, usage } = await textToSpeech(text, voice);
+      trackUsage(usage);
+      if (audioData) {
+          const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+          const decodedData = decode(audioData);
+          const buffer = await decodeAudioData(decodedData, audioContext, 24000, 1);
+          const source = audioContext.createBufferSource();
+          source.buffer = buffer;
+          source.connect(audioContext.destination);
+          source.start(0);
+      }
+  };
+
   const handlePlayAudio = async (text: string) => {
       try {
-          const audioData = await textToSpeech(text);
-          if (audioData) {
-              const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-              const decodedData = decode(audioData);
-              const buffer = await decodeAudioData(decodedData, audioContext, 24000, 1);
-              const source = audioContext.createBufferSource();
-              source.buffer = buffer;
-              source.connect(audioContext.destination);
-              source.start(0);
-          }
+          await speak(text, activePersona?.voice);
       } catch (error) {
           console.error("Error with TTS:", error);
           addMessage({ role: ChatRole.SYSTEM, text: "Sorry, I couldn't read that aloud." });
       }
   };
 
+  // Each Live session starts from the settings panel.
+  const handleLiveToggle = () => {
+    setIsLiveMode(p => !p);
+    setLiveSettings(null);
+  };
+
+  const handleLiveExit = () => {
+    setIsLiveMode(false);
+    setLiveSettings(null);
+  };
+
+  // A finished voice session carries on in the text thread.
+  const handleLiveTranscript = (turns: LiveTurn[]) => {
+    if (turns.length === 0) return;
+    setMessages(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), role: ChatRole.SYSTEM, text: `Voice conversation (${turns.length} ${turns.length === 1 ? 'turn' : 'turns'}):` },
+      ...liveTranscriptToMessages(turns),
+    ]);
+  };
+
+  // What tools called from a Live session can do to the text chat.
+  const liveToolActions: LiveChatActions = {
+    generateImage: (prompt, aspectRatio) => handleImageGeneration({ ...QUICK_IMAGE_OPTIONS, prompt, ...(aspectRatio && { aspectRatio }) }),
+    isBusy: () => isLoading,
+    setMode,
+    getMessages: () => messages,
+  };
+
   return (
     <div className="flex flex-col h-screen bg-gray-900 text-gray-100 font-sans">
-      <Header onLiveToggle={() => setIsLiveMode(p => !p)} isLiveMode={isLiveMode}/>
+      <Header onLiveToggle={handleLiveToggle} isLiveMode={isLiveMode} onSidebarToggle={() => setIsSidebarOpen(p => !p)} onUsageOpen={() => setIsUsageOpen(true)}/>
       
-      {isLiveMode ? (
-        <LiveConversationUI onExit={() => setIsLiveMode(false)}/>
+      {isLiveMode ? (liveSettings ? (
+        <LiveConversationUI
+          persona={activePersona}
+          settings={liveSettings}
+          chatMessages={messages}
+          toolActions={liveToolActions}
+          onTranscript={handleLiveTranscript}
+          onExit={handleLiveExit}
+        />
       ) : (
-        <>
-          <ModeSelector mode={mode} setMode={setMode} />
-          
-          <div className="flex-1 overflow-y-auto p-4 space-y-6">
-            {messages.map((msg) => (
-              <ChatMessageBubble key={msg.id} msg={msg} onPlayAudio={handlePlayAudio} />
-            ))}
-            <div ref={chatEndRef} />
+        <div className="flex-1 flex flex-col items-center overflow-y-auto p-4 bg-gray-900">
+          <LiveSettingsPanel persona={activePersona} onPreviewVoice={speak} onStart={setLiveSettings} onCancel={handleLiveExit}/>
+        </div>
+      )) : (
+        <div className="flex flex-1 min-h-0">
+          {isSidebarOpen && (
+            <ConversationSidebar
+              conversations={conversations}
+              activeId={activeConversationId}
+              disabled={isLoading}
+              onSearch={handleSearch}
+              onSelect={openConversation}
+              onCreate={handleNewConversation}
+              onImport={handleImportConversation}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+            />
+          )}
+          <div className="flex flex-col flex-1 min-w-0">
+            <div className="flex flex-wrap justify-center items-center gap-2 p-2 bg-gray-800/50">
+              <ModeSelector mode={mode} setMode={setMode} />
+              <PersonaSelector personas={personas} personaId={activePersona?.id ?? null}
+                onSelect={handleSelectPersona} onManage={() => setIsPersonaManagerOpen(true)} />
+              <button onClick={() => setIsSettingsOpen(true)} title="Generation settings"
+                className="relative p-2 bg-gray-900 rounded-lg text-gray-400 hover:text-cyan-400">
+                <SlidersIcon className="w-5 h-5"/>
+                {Object.keys(settings).length > 0 && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-cyan-400"/>}
+              </button>
+            </div>
+            
+            <div
+              className="relative flex-1 overflow-y-auto p-4 space-y-6"
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+              }}
+              onDrop={handleDrop}
+            >
+              {isDraggingFiles && (
+                <div className="sticky top-0 z-20 h-full -mb-[100%] flex items-center justify-center rounded-lg border-2 border-dashed border-cyan-400 bg-gray-900/80 pointer-events-none">
+                  <p className="text-lg text-cyan-400">Drop files to attach them</p>
+                </div>
+              )}
+              {messages.map((msg, index) => (
+                <ChatMessageBubble
+                  key={msg.id}
+                  msg={msg}
+                  onPlayAudio={handlePlayAudio}
+                  onSeek={msg.role === ChatRole.MODEL && messages.slice(0, index).some(hasTimedMedia)
+                    ? (seconds) => handleSeek(msg.id, seconds)
+                    : undefined}
+                  onMediaElement={(attachmentIndex, element) => {
+                    const key = `${msg.id}/${attachmentIndex}`;
+                    if (element) mediaElementsRef.current.set(key, element);
+                    else mediaElementsRef.current.delete(key);
+                  }}
+                  onRecover={!isLoading && recoveryFor(msg) ? (action) => handleRecover(msg, action) : undefined}
+                  onCancelVideo={msg.videoJob ? () => cancelVideoJob(msg.videoJob!.id) : undefined}
+                  onSelectVideo={(index) => updateMessage(msg.id, { selectedVideo: index })}
+                  onExtendVideo={(source) => { setVideoToExtend(source); setIsVideoGenModalOpen(true); }}
+                  versions={msg.editOf ? versionChain(messages, msg) : undefined}
+                  onUseImage={attachImage}
+                  onEditImage={handleEditImage}
+                  onRevertImage={isLoading ? undefined : handleRevertImage}
+                  onMaskImage={(file, ref) => setMaskTarget({ file, ref })}
+                />
+              ))}
+              <div ref={chatEndRef} />
+            </div>
+            
+            <InputBar
+              input={input}
+              setInput={setInput}
+              isLoading={isLoading}
+              attachedFiles={attachedFiles}
+              attachmentError={attachmentError}
+              fileInputRef={fileInputRef}
+              textareaRef={textareaRef}
+              handleFileChange={handleFileChange}
+              onAddFiles={addFiles}
+              onRemoveAttachment={(index) => setAttachedFiles(prev => prev.filter((_, i) => i !== index))}
+              onDismissAttachmentError={() => setAttachmentError(null)}
+              onSend={handleSend}
+              intents={intents}
+              intent={effectiveIntent}
+              onIntentChange={handleIntentChange}
+              autoRoute={autoRoute}
+              onAutoRouteChange={(enabled) => { setAutoRoute(enabled); setIntentPicked(false); }}
+              isAutoIntent={isAutoIntent}
+              isRouting={isRouting}
+              editTargets={editTargets}
+              onRemoveEditTarget={(index) => setEditTargets(prev => prev.filter((_, i) => i !== index))}
+              onMaskAttachment={(file) => setMaskTarget({ file })}
+              onStop={streamController ? () => streamController.abort() : undefined}
+              onImageIconClick={() => setIsImageGenModalOpen(true)}
+              onVideoIconClick={() => { setVideoToExtend(null); setIsVideoGenModalOpen(true); }}
+            />
           </div>
-          
-          <InputBar
-            input={input}
-            setInput={setInput}
-            isLoading={isLoading}
-            attachedFile={attachedFile}
-            fileInputRef={fileInputRef}
-            handleFileChange={handleFileChange}
-            setAttachedFile={setAttachedFile}
-            handleSubmit={handleSubmit}
-            handleImageEditing={handleImageEditing}
-            onImageIconClick={() => setIsImageGenModalOpen(true)}
-            onVideoIconClick={() => setIsVideoGenModalOpen(true)}
-          />
-        </>
+        </div>
       )}
 
       {isImageGenModalOpen && (
@@ -259,10 +1083,41 @@ export default function App() {
         />
       )}
       
+      {isSettingsOpen && (
+        <GenerationSettingsDrawer settings={settings} mode={mode} onChange={setSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard conversations={conversations} onClose={() => setIsUsageOpen(false)} />
+      )}
+
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          personas={personas}
+          onSave={async (persona) => { await savePersona(persona); await refreshPersonas(); }}
+          onDelete={async (id) => { await deletePersona(id); await refreshPersonas(); }}
+          onImport={async (json) => { const imported = await importPersonas(json); await refreshPersonas(); return imported.length; }}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+
+      {isPaletteOpen && !isLiveMode && (
+        <CommandPalette actions={paletteActions} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {maskTarget && (
+        <MaskEditor
+          image={maskTarget.file}
+          onClose={() => setMaskTarget(null)}
+          onApply={handleMaskedEdit}
+        />
+      )}
+
       {isVideoGenModalOpen && (
          <VideoGenerationModal
           onClose={() => setIsVideoGenModalOpen(false)}
           onGenerate={handleVideoGeneration}
+          extendFrom={videoToExtend}
         />
       )}
 
@@ -272,20 +1127,32 @@ export default function App() {
 
 // --- Sub Components ---
 
-const Header: React.FC<{onLiveToggle: () => void, isLiveMode: boolean}> = ({ onLiveToggle, isLiveMode }) => (
+const Header: React.FC<{onLiveToggle: () => void, isLiveMode: boolean, onSidebarToggle: () => void, onUsageOpen: () => void}> = ({ onLiveToggle, isLiveMode, onSidebarToggle, onUsageOpen }) => (
   <header className="flex items-center justify-between p-4 bg-gray-800 border-b border-gray-700 shadow-md">
-    <h1 className="text-xl font-bold text-cyan-400">Meta World 🌎 ai</h1>
-    <button
-      onClick={onLiveToggle}
-      className={`px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 transition-colors ${
-        isLiveMode 
-        ? 'bg-red-500 hover:bg-red-600'
-        : 'bg-cyan-500 hover:bg-cyan-600'
-      }`}
-    >
-      <MicIcon className="w-5 h-5"/>
-      {isLiveMode ? 'End Conversation' : 'Start Conversation'}
-    </button>
+    <div className="flex items-center gap-3">
+      {!isLiveMode && (
+        <button onClick={onSidebarToggle} className="text-gray-400 hover:text-cyan-400" title="Toggle conversations">
+          <MenuIcon />
+        </button>
+      )}
+      <h1 className="text-xl font-bold text-cyan-400">Meta World 🌎 ai</h1>
+    </div>
+    <div className="flex items-center gap-3">
+      <button onClick={onUsageOpen} className="text-gray-400 hover:text-cyan-400" title="Usage and costs">
+        <ChartIcon />
+      </button>
+      <button
+        onClick={onLiveToggle}
+        className={`px-4 py-2 rounded-lg text-sm font-semibold flex items-center gap-2 transition-colors ${
+          isLiveMode 
+          ? 'bg-red-500 hover:bg-red-600'
+          : 'bg-cyan-500 hover:bg-cyan-600'
+        }`}
+      >
+        <MicIcon className="w-5 h-5"/>
+        {isLiveMode ? 'End Conversation' : 'Start Conversation'}
+      </button>
+    </div>
   </header>
 );
 
@@ -297,32 +1164,300 @@ const ModeSelector: React.FC<{mode: AppMode, setMode: (mode: AppMode) => void}>
     { key: AppMode.SEARCH, label: 'Search 🌐' },
   ];
   return (
-    <div className="flex justify-center p-2 bg-gray-800/50">
-      <div className="flex space-x-2 bg-gray-900 p-1 rounded-lg">
-        {modes.map(m => (
-          <button
-            key={m.key}
-            onClick={() => setMode(m.key)}
-            className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${
-              mode === m.key ? 'bg-cyan-500 text-white' : 'bg-transparent text-gray-400 hover:bg-gray-700'
-            }`}
-          >
-            {m.label}
+    <div className="flex space-x-2 bg-gray-900 p-1 rounded-lg">
+      {modes.map(m => (
+        <button
+          key={m.key}
+          onClick={() => setMode(m.key)}
+          className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${
+            mode === m.key ? 'bg-cyan-500 text-white' : 'bg-transparent text-gray-400 hover:bg-gray-700'
+          }`}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const PersonaSelector: React.FC<{
+  personas: Persona[],
+  personaId: string | null,
+  onSelect: (id: string | null) => void,
+  onManage: () => void,
+}> = ({ personas, personaId, onSelect, onManage }) => (
+  <div className="flex items-center gap-1 bg-gray-900 p-1 rounded-lg">
+    <select value={personaId ?? ''} onChange={(e) => onSelect(e.target.value || null)} title="Persona for this conversation"
+      className="bg-transparent border-none py-1 pl-2 pr-8 text-sm font-semibold text-gray-300 focus:ring-0">
+      <option value="">No persona</option>
+      {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+    </select>
+    <button onClick={onManage} className="p-1 text-gray-400 hover:text-cyan-400" title="Manage personas">
+      <PencilIcon className="w-4 h-4"/>
+    </button>
+  </div>
+);
+
+
+const CONFIG_LABELS: Record<Exclude<keyof ResponseConfig, 'model'>, string> = {
+  temperature: 'Temperature',
+  topP: 'Top P',
+  topK: 'Top K',
+  maxOutputTokens: 'Max output tokens',
+  stopSequences: 'Stop sequences',
+  thinkingBudget: 'Thinking',
+  includeThoughts: 'Reasoning summaries',
+  safety: 'Safety',
+  hasSystemInstruction: 'System instruction',
+};
+
+const formatConfigValue = (key: keyof typeof CONFIG_LABELS, config: ResponseConfig) => {
+  switch (key) {
+    case 'thinkingBudget':
+      return config.thinkingBudget === 0 ? 'off' : config.thinkingBudget === -1 ? 'dynamic' : `${config.thinkingBudget} tokens`;
+    case 'stopSequences':
+      return config.stopSequences!.map(s => JSON.stringify(s)).join(', ');
+    case 'safety':
+      return Object.entries(config.safety!).map(([category, threshold]) => `${category}: block ${threshold === 'none' ? 'none' : `${threshold}+`}`).join(', ');
+    case 'hasSystemInstruction':
+    case 'includeThoughts':
+      return 'yes';
+    default:
+      return String(config[key]);
+  }
+};
+
+// The model and settings a reply was generated with, for checking that they took effect.
+const ResponseConfigDetails: React.FC<{ config: ResponseConfig }> = ({ config }) => {
+  const keys = (Object.keys(CONFIG_LABELS) as (keyof typeof CONFIG_LABELS)[]).filter(key => config[key] !== undefined);
+  return (
+    <details className="mt-2 text-xs text-gray-400">
+      <summary className="cursor-pointer hover:text-gray-300">
+        {config.model} · {keys.length > 0 ? `${keys.length} setting${keys.length === 1 ? '' : 's'}` : 'model defaults'}
+      </summary>
+      {keys.length > 0 && (
+        <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          {keys.map(key => (
+            <React.Fragment key={key}>
+              <dt>{CONFIG_LABELS[key]}</dt>
+              <dd className="text-gray-300 break-words">{formatConfigValue(key, config)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </details>
+  );
+};
+
+// The model's summarised reasoning, above its answer. It stays open while the
+// model is still thinking and folds away once the answer starts.
+const Reasoning: React.FC<{ thoughts?: string; tokenCount?: number; isThinking: boolean }> = ({ thoughts, tokenCount, isThinking }) => {
+  const tokens = tokenCount !== undefined ? `${tokenCount.toLocaleString()} thinking tokens` : null;
+  if (!thoughts) {
+    return tokens ? <p className="mb-2 text-xs text-gray-400">Thought for {tokens}</p> : null;
+  }
+  return (
+    <details open={isThinking} className="mb-3 text-sm border-l-2 border-gray-500 pl-3">
+      <summary className="cursor-pointer text-xs text-gray-400 hover:text-gray-300">
+        {isThinking ? 'Thinking…' : ['Reasoning', tokens].filter(Boolean).join(' · ')}
+      </summary>
+      <div className="mt-2 prose prose-invert prose-sm max-w-none text-gray-300">
+        <MarkdownContent text={thoughts} />
+      </div>
+    </details>
+  );
+};
+
+// Model, tokens, time and estimated cost of the call behind a reply.
+const UsageFooter: React.FC<{ usage: Usage }> = ({ usage }) => {
+  const parts = [
+    usage.model,
+    usage.inputTokens !== undefined && `${usage.inputTokens.toLocaleString()} in`,
+    usage.outputTokens !== undefined && `${usage.outputTokens.toLocaleString()} out`,
+    usage.thinkingTokens && `${usage.thinkingTokens.toLocaleString()} thinking`,
+    usage.units !== undefined && `${usage.units} ${usage.kind === 'video' ? 's' : usage.units === 1 ? 'image' : 'images'}`,
+    `${(usage.latencyMs / 1000).toFixed(1)}s`,
+    formatCost(usage.cost),
+  ];
+  return <p className="mt-2 text-[11px] text-gray-500">{parts.filter(Boolean).join(' · ')}</p>;
+};
+
+// Rough duration of a Veo job, used to estimate progress when the backend reports none.
+const EXPECTED_VIDEO_SECONDS = 90;
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const VideoJobProgress: React.FC<{ job: VideoJobState, onCancel?: () => void }> = ({ job, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const isQueued = job.status === VideoJobStatus.QUEUED;
+  const elapsed = Math.max(0, (now - job.startedAt) / 1000);
+  const progress = job.progress ?? Math.min(0.95, elapsed / EXPECTED_VIDEO_SECONDS);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="h-1.5 w-full bg-gray-600 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-cyan-400 transition-all duration-1000 ${isQueued ? 'animate-pulse' : ''}`}
+          style={{ width: isQueued ? '100%' : `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>{isQueued ? 'Waiting in queue' : `Elapsed ${formatElapsed(elapsed)}`}</span>
+        {onCancel && (
+          <button onClick={onCancel} className="text-gray-400 hover:text-red-400 font-semibold">Cancel</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ImageGallery: React.FC<{
+  // Each image with its position in the message's attachments.
+  images: { url: string, name: string, index: number }[],
+  onUse?: (file: FileData) => void,
+  onEdit?: (file: FileData, index: number, combine?: boolean) => void,
+  onMask?: (file: FileData, index: number) => void,
+  // An earlier version of a single image, compared with a slider.
+  before?: string,
+}> = ({ images, onUse, onEdit, onMask, before }) => (
+  <div className={`not-prose grid gap-2 my-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1 max-w-xs'}`}>
+    {images.map(({ url, name, index }, position) => {
+      if (!url) return null;
+      const file = () => dataUrlToFileData(url, name);
+      const actionClass = "p-1.5 rounded-full bg-black/60 text-gray-200 hover:text-cyan-400";
+      return (
+        <div key={index} className="relative group">
+          {before && images.length === 1
+            ? <BeforeAfterSlider before={before} after={url} />
+            : <img src={url} alt={images.length > 1 ? `Image ${position + 1}` : name} className="w-full rounded-lg"/>}
+          <div className="absolute z-10 bottom-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <a href={url} download={name} className={actionClass} title="Download">
+              <DownloadIcon className="w-4 h-4"/>
+            </a>
+            {onUse && (
+              <button onClick={() => onUse(file())} className={actionClass} title="Use as attachment">
+                <PaperclipIcon className="w-4 h-4"/>
+              </button>
+            )}
+            {onEdit && (
+              <>
+                <button onClick={() => onEdit(file(), index)} className={actionClass} title="Edit this">
+                  <PencilIcon className="w-4 h-4"/>
+                </button>
+                <button onClick={() => onEdit(file(), index, true)} className={actionClass} title="Add to images to combine">
+                  <PlusIcon className="w-4 h-4"/>
+                </button>
+              </>
+            )}
+            {onMask && (
+              <button onClick={() => onMask(file(), index)} className={actionClass} title="Edit a region">
+                <BrushIcon className="w-4 h-4"/>
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+const BeforeAfterSlider: React.FC<{ before: string, after: string }> = ({ before, after }) => {
+  const [position, setPosition] = useState(50);
+  return (
+    <div className="relative select-none">
+      <img src={after} alt="After" className="w-full rounded-lg"/>
+      <img src={before} alt="Before" className="absolute inset-0 w-full h-full rounded-lg"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}/>
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}/>
+      <span className="absolute top-2 left-2 px-1.5 py-0.5 text-xs rounded bg-black/60 text-gray-200 pointer-events-none">Before</span>
+      <span className="absolute top-2 right-2 px-1.5 py-0.5 text-xs rounded bg-black/60 text-gray-200 pointer-events-none">After</span>
+      <input type="range" min={0} max={100} value={position} onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label="Compare before and after" className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"/>
+    </div>
+  );
+};
+
+// Browses the versions of an edited image and compares one with the latest.
+const ImageVersions: React.FC<{
+  versions: { ref: ImageRef, image: string }[],
+  onRevert?: (ref: ImageRef, image: string) => void,
+}> = ({ versions, onRevert }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const latest = versions[versions.length - 1];
+  const compared = selected === null ? null : versions[selected];
+  return (
+    <div className="not-prose mt-2">
+      <div className="flex items-center gap-2 overflow-x-auto">
+        <span className="text-xs text-gray-400 shrink-0">Versions</span>
+        {versions.map((version, index) => (
+          <button key={index} onClick={() => setSelected(selected === index ? null : index)} title={`Version ${index + 1}`}
+            className={`shrink-0 rounded border-2 ${selected === index ? 'border-cyan-400' : index === versions.length - 1 ? 'border-gray-400' : 'border-transparent hover:border-gray-500'}`}>
+            <img src={version.image} alt={`Version ${index + 1}`} className="w-10 h-10 object-cover rounded-sm"/>
           </button>
         ))}
       </div>
+      {compared && compared !== latest && (
+        <div className="mt-2 p-2 bg-gray-800 rounded-lg">
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+            <figure>
+              <img src={compared.image} alt={`Version ${selected! + 1}`} className="w-full rounded"/>
+              <figcaption className="mt-1 text-center">Version {selected! + 1}</figcaption>
+            </figure>
+            <figure>
+              <img src={latest.image} alt="Latest version" className="w-full rounded"/>
+              <figcaption className="mt-1 text-center">Version {versions.length} (this)</figcaption>
+            </figure>
+          </div>
+          {onRevert && (
+            <button onClick={() => { onRevert(compared.ref, compared.image); setSelected(null); }}
+              className="mt-2 px-3 py-1 text-xs font-semibold rounded-full bg-gray-600 hover:bg-cyan-600 text-white transition-colors">
+              Revert to version {selected! + 1}
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-
-const ChatMessageBubble: React.FC<{msg: ChatMessage, onPlayAudio: (text: string) => void}> = ({ msg, onPlayAudio }) => {
+const ChatMessageBubble: React.FC<{
+  msg: ChatMessage,
+  onPlayAudio: (text: string) => void,
+  onRecover?: (action: RecoveryAction) => void,
+  onCancelVideo?: () => void,
+  onSelectVideo?: (index: number) => void,
+  onExtendVideo?: (source: VideoSource) => void,
+  versions?: { ref: ImageRef, image: string }[],
+  onUseImage?: (file: FileData) => void,
+  onEditImage?: (target: EditTarget, combine?: boolean) => void,
+  onRevertImage?: (ref: ImageRef, image: string) => void,
+  onMaskImage?: (file: FileData, ref: ImageRef) => void,
+  onSeek?: (seconds: number) => void,
+  onMediaElement?: (index: number, element: HTMLMediaElement | null) => void,
+}> = ({ msg, onPlayAudio, onRecover, onCancelVideo, onSelectVideo, onExtendVideo, versions, onUseImage, onEditImage, onRevertImage, onMaskImage, onSeek, onMediaElement }) => {
   const isUser = msg.role === ChatRole.USER;
+  const attachments = (msg.attachments ?? []).map((attachment, index) => ({ ...attachment, index }));
+  const images = attachments.filter(isImage);
+  const videos = attachments.filter(isVideo);
+  const audios = attachments.filter(isAudio);
+  const documents = attachments.filter(a => !isImage(a) && !isVideo(a) && !isAudio(a));
+  // Candidates of a multi-video generation show one at a time.
+  const selectedVideo = msg.selectedVideo === undefined ? undefined : msg.attachments?.[msg.selectedVideo];
+  const shownVideos = selectedVideo ? [{ ...selectedVideo, index: msg.selectedVideo! }] : videos;
+  const extendable = !isUser && shownVideos.length === 1 && shownVideos[0].url ? shownVideos[0] : null;
   return (
     <div className={`flex items-start gap-4 ${isUser ? 'justify-end' : ''}`}>
       {!isUser && <div className="p-1.5 bg-gray-700 rounded-full"><BotIcon className="w-8 h-8 text-cyan-400"/></div>}
       <div className={`max-w-xl p-4 rounded-2xl shadow ${isUser ? 'bg-cyan-600 rounded-br-none' : 'bg-gray-700 rounded-bl-none'}`}>
-        {msg.isLoading ? (
+        {!isUser && <Reasoning thoughts={msg.thoughts} tokenCount={msg.thoughtsTokenCount} isThinking={!!msg.isLoading && !msg.text} />}
+        {msg.isLoading && !msg.text ? (
           <div className="flex items-center space-x-2">
             <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse"></div>
             <div className="w-2 h-2 bg-cyan-400 rounded-full animate-pulse delay-75"></div>
@@ -330,9 +1465,43 @@ const ChatMessageBubble: React.FC<{msg: ChatMessage, onPlayAudio: (text: string)
           </div>
         ) : (
           <div className="prose prose-invert prose-sm max-w-none">
-            {msg.image && <img src={msg.image} alt="content" className="max-w-xs rounded-lg my-2"/>}
-            {msg.video && <video src={msg.video} controls className="max-w-xs rounded-lg my-2"/>}
-            <p className="whitespace-pre-wrap">{msg.text}</p>
+            {images.length > 0 && (
+              <ImageGallery images={images} onUse={onUseImage}
+                onEdit={onEditImage && ((file, index, combine) => onEditImage({ messageId: msg.id, index, file }, combine))}
+                onMask={onMaskImage && ((file, index) => onMaskImage(file, { messageId: msg.id, index }))}
+                before={msg.masked && versions && versions.length > 1 ? versions[versions.length - 2].image : undefined} />
+            )}
+            {versions && versions.length > 1 && <ImageVersions versions={versions} onRevert={onRevertImage} />}
+            {shownVideos.map(video => video.url && (
+              <video key={video.url} ref={(element) => { onMediaElement?.(video.index, element); }} src={video.url} controls className="max-w-xs rounded-lg my-2"/>
+            ))}
+            {audios.map(audio => audio.url && (
+              <audio key={audio.index} ref={(element) => { onMediaElement?.(audio.index, element); }} src={audio.url} controls className="w-full max-w-xs my-2"/>
+            ))}
+            {documents.map(doc => doc.url && (
+              <a key={doc.index} href={doc.url} target="_blank" rel="noopener noreferrer"
+                className="not-prose flex items-center gap-2 my-2 px-3 py-2 rounded-lg bg-black/20 text-sm text-gray-100 hover:bg-black/30">
+                <DocumentIcon className="w-5 h-5 shrink-0"/>
+                <span className="truncate">{doc.name}</span>
+                {doc.size !== undefined && <span className="shrink-0 text-xs text-gray-400">{formatFileSize(doc.size)}</span>}
+              </a>
+            ))}
+            {selectedVideo && videos.length > 1 && (
+              <div className="not-prose flex gap-2 mb-2">
+                {videos.map(video => video.url && (
+                  <button key={video.index} onClick={() => onSelectVideo?.(video.index)} title={video.name}
+                    className={`rounded-md overflow-hidden border-2 ${video.index === msg.selectedVideo ? 'border-cyan-400' : 'border-transparent hover:border-gray-500'}`}>
+                    <video src={video.url} muted preload="metadata" className="w-20 h-12 object-cover"/>
+                  </button>
+                ))}
+              </div>
+            )}
+            {isUser ? (
+              <p className="whitespace-pre-wrap">{msg.text}</p>
+            ) : (
+              <MarkdownContent text={msg.text} sources={msg.sources} onSeek={onSeek} />
+            )}
+            {msg.isLoading && <span className="inline-block w-2 h-4 bg-cyan-400 ml-1 animate-pulse"></span>}
             {msg.sources && msg.sources.length > 0 && (
               <div className="mt-4 pt-2 border-t border-gray-600">
                 <h4 className="text-xs font-bold text-gray-400 mb-1">Sources:</h4>
@@ -349,11 +1518,32 @@ const ChatMessageBubble: React.FC<{msg: ChatMessage, onPlayAudio: (text: string)
             )}
           </div>
         )}
-        {!isUser && msg.text && !msg.isLoading && (
-          <button onClick={() => onPlayAudio(msg.text)} className="mt-2 text-gray-400 hover:text-cyan-400 transition-colors">
-            <SpeakerIcon className="w-5 h-5"/>
-          </button>
+        {msg.isLoading && msg.videoJob && <VideoJobProgress job={msg.videoJob} onCancel={onCancelVideo} />}
+        {msg.config && !msg.isLoading && <ResponseConfigDetails config={msg.config} />}
+        {msg.error && onRecover && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {RECOVERY_ACTIONS[msg.error].map(action => (
+              <button key={action} onClick={() => onRecover(action)}
+                className="px-3 py-1 text-xs font-semibold rounded-full bg-gray-600 hover:bg-cyan-600 text-white transition-colors">
+                {RECOVERY_LABELS[action]}
+              </button>
+            ))}
+          </div>
         )}
+        {!isUser && msg.text && !msg.isLoading && !msg.error && (
+          <div className="mt-2 flex items-center gap-3">
+            <button onClick={() => onPlayAudio(msg.text)} className="text-gray-400 hover:text-cyan-400 transition-colors">
+              <SpeakerIcon className="w-5 h-5"/>
+            </button>
+            {extendable?.upload && onExtendVideo && (
+              <button onClick={() => onExtendVideo({ uri: extendable.upload!.uri, video: extendable.url })}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-cyan-400 transition-colors" title="Continue this video with a new prompt">
+                <VideoIcon className="w-5 h-5"/> Extend
+              </button>
+            )}
+          </div>
+        )}
+        {msg.usage && !msg.isLoading && <UsageFooter usage={msg.usage} />}
       </div>
       {isUser && <div className="p-1.5 bg-gray-700 rounded-full"><UserIcon className="w-8 h-8 text-gray-300"/></div>}
     </div>
@@ -364,43 +1554,169 @@ const InputBar: React.FC<{
   input: string;
   setInput: (val: string) => void;
   isLoading: boolean;
-  attachedFile: FileData | null;
+  attachedFiles: FileData[];
+  attachmentError: string | null;
   fileInputRef: React.RefObject<HTMLInputElement>;
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
   handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  setAttachedFile: (file: FileData | null) => void;
-  handleSubmit: () => void;
-  handleImageEditing: (prompt: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onRemoveAttachment: (index: number) => void;
+  onDismissAttachmentError: () => void;
+  onSend: () => void;
+  intents: Intent[];
+  intent: Intent;
+  onIntentChange: (intent: Intent) => void;
+  autoRoute: boolean;
+  onAutoRouteChange: (autoRoute: boolean) => void;
+  // Whether `intent` was chosen by the auto-router.
+  isAutoIntent: boolean;
+  isRouting: boolean;
+  editTargets: EditTarget[];
+  onRemoveEditTarget: (index: number) => void;
+  onMaskAttachment: (file: FileData) => void;
+  onStop?: () => void;
   onImageIconClick: () => void;
   onVideoIconClick: () => void;
 }> = ({
-  input, setInput, isLoading, attachedFile, fileInputRef,
-  handleFileChange, setAttachedFile, handleSubmit, handleImageEditing,
-  onImageIconClick, onVideoIconClick
+  input, setInput, isLoading, attachedFiles, attachmentError, fileInputRef, textareaRef,
+  handleFileChange, onAddFiles, onRemoveAttachment, onDismissAttachmentError, onSend, intents, intent, onIntentChange,
+  autoRoute, onAutoRouteChange, isAutoIntent, isRouting, editTargets, onRemoveEditTarget, onMaskAttachment,
+  onStop, onImageIconClick, onVideoIconClick
 }) => {
-  const isImageAttached = attachedFile?.mimeType.startsWith('image/');
-
-  const handleSend = () => {
-    if (isImageAttached && input.trim()) {
-      handleImageEditing(input);
-      setInput('');
-    } else {
-      handleSubmit();
+  const editCount = editTargets.length + attachedFiles.filter(isImage).length;
+  const placeholder = intent === 'edit'
+    ? (editCount > 1 ? "Describe how to combine the images..." : "Describe how you want to edit the image...")
+    : INTENT_PLACEHOLDERS[intent];
+
+  const [highlightedCommand, setHighlightedCommand] = useState(0);
+  const suggestions = completeCommand(input);
+  const typedCommand = commandBeingTyped(input);
+  const activeSuggestion = Math.min(highlightedCommand, suggestions.length - 1);
+
+  const completeSuggestion = (name: string) => {
+    setInput(`/${name} `);
+    setHighlightedCommand(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightedCommand((activeSuggestion + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      // Enter on a fully typed command runs it; otherwise it completes the name.
+      const isComplete = suggestions.some(command => `/${command.name}` === input.toLowerCase());
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !isComplete)) {
+        e.preventDefault();
+        completeSuggestion(suggestions[activeSuggestion].name);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSend();
     }
   };
-  
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    onAddFiles(files);
+  };
+
   return (
     <div className="p-4 bg-gray-800 border-t border-gray-700">
-      {attachedFile && (
-        <div className="mb-2 flex items-center justify-between bg-gray-700 p-2 rounded-lg">
-          <span className="text-sm text-gray-300 truncate">Attached: {attachedFile.name}</span>
-          <button onClick={() => setAttachedFile(null)} className="text-gray-400 hover:text-white">
+      {editTargets.length > 0 && (
+        <div className="mb-2 flex items-center gap-2 bg-gray-700 p-2 rounded-lg">
+          <span className="text-sm text-gray-300 shrink-0">{editTargets.length > 1 ? 'Combining:' : 'Editing:'}</span>
+          <div className="flex gap-2 overflow-x-auto">
+            {editTargets.map((target, index) => (
+              <div key={`${target.messageId}/${target.index}`} className="relative shrink-0">
+                <img src={`data:${target.file.mimeType};base64,${target.file.base64}`} alt={target.file.name} className="w-10 h-10 object-cover rounded"/>
+                <button onClick={() => onRemoveEditTarget(index)} className="absolute -top-1 -right-1 bg-gray-900 rounded-full text-gray-400 hover:text-white" title="Stop editing this image">
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {attachmentError && (
+        <div className="mb-2 flex items-start justify-between gap-2 bg-red-900/40 border border-red-700 p-2 rounded-lg">
+          <p className="text-sm text-red-200 whitespace-pre-wrap">{attachmentError}</p>
+          <button onClick={onDismissAttachmentError} className="text-red-300 hover:text-white shrink-0">
             <CloseIcon className="w-5 h-5" />
           </button>
         </div>
       )}
-      <div className="flex items-center bg-gray-700 rounded-lg p-2">
-        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*,video/*,audio/*" />
-        <button onClick={() => fileInputRef.current?.click()} className="p-2 text-gray-400 hover:text-cyan-400" title="Attach file">
+      {attachedFiles.length > 0 && (
+        <div className="mb-2 flex gap-2 overflow-x-auto bg-gray-700 p-2 rounded-lg">
+          {attachedFiles.map((file, index) => (
+            <div key={index} className="flex items-center gap-2 shrink-0 max-w-[14rem] bg-gray-800 rounded-lg p-1.5">
+              {isImage(file)
+                ? <img src={`data:${file.mimeType};base64,${file.base64}`} alt={file.name} className="w-8 h-8 object-cover rounded"/>
+                : isVideo(file) ? <VideoIcon className="w-6 h-6 text-gray-400 shrink-0"/>
+                : isAudio(file) ? <MicIcon className="w-6 h-6 text-gray-400 shrink-0"/>
+                : <DocumentIcon className="w-6 h-6 text-gray-400 shrink-0"/>}
+              <div className="min-w-0">
+                <p className="text-xs text-gray-200 truncate">{file.name}</p>
+                <p className="text-xs text-gray-400">{formatFileSize(fileDataSize(file))}</p>
+              </div>
+              {isImage(file) && (
+                <button onClick={() => onMaskAttachment(file)} className="text-gray-400 hover:text-cyan-400 shrink-0" title="Edit a region">
+                  <BrushIcon className="w-4 h-4" />
+                </button>
+              )}
+              <button onClick={() => onRemoveAttachment(index)} className="text-gray-400 hover:text-white shrink-0" title="Remove">
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        {(Object.keys(INTENT_LABELS) as Intent[]).map(option => (
+          <button key={option} onClick={() => onIntentChange(option)} disabled={!intents.includes(option)}
+            className={`px-3 py-1 text-xs rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${intent === option ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+            {INTENT_LABELS[option]}
+          </button>
+        ))}
+        <span className="text-xs text-gray-400">
+          {isRouting ? 'Choosing an action...' : isAutoIntent ? 'Chosen automatically. Pick another to override.' : ''}
+        </span>
+        <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-400" title="Let a fast model pick the action as you type">
+          <input type="checkbox" checked={autoRoute} onChange={(e) => onAutoRouteChange(e.target.checked)} className="rounded bg-gray-700 border-gray-500 text-cyan-500 focus:ring-cyan-500"/>
+          Auto
+        </label>
+      </div>
+      <div className="relative flex items-center bg-gray-700 rounded-lg p-2">
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full left-0 right-0 mb-2 py-1 bg-gray-900 border border-gray-700 rounded-lg shadow-lg z-10">
+            {suggestions.map((command, index) => (
+              <li key={command.name}>
+                <button
+                  onMouseDown={(e) => { e.preventDefault(); completeSuggestion(command.name); textareaRef.current?.focus(); }}
+                  onMouseEnter={() => setHighlightedCommand(index)}
+                  className={`w-full flex items-baseline gap-3 px-3 py-1.5 text-left text-sm ${index === activeSuggestion ? 'bg-gray-700' : ''}`}
+                >
+                  <span className="font-mono text-cyan-400">/{command.name}</span>
+                  <span className="text-gray-400 truncate">{command.description}</span>
+                </button>
+              </li>
+            ))}
+            <li className="px-3 pt-1 text-xs text-gray-500">Tab to complete · Ctrl+K for all commands</li>
+          </ul>
+        )}
+        {typedCommand && (
+          <p className="absolute bottom-full left-0 mb-2 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs font-mono text-gray-400">
+            {typedCommand.usage}
+          </p>
+        )}
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={ACCEPTED_TYPES} multiple />
+        <button onClick={() => fileInputRef.current?.click()} className="p-2 text-gray-400 hover:text-cyan-400" title="Attach files">
           <ImageIcon />
         </button>
         <button onClick={onImageIconClick} className="p-2 text-gray-400 hover:text-cyan-400" title="Generate Image">
@@ -410,30 +1726,37 @@ const InputBar: React.FC<{
           <VideoIcon className="w-6 h-6"/>
         </button>
         <textarea
+          ref={textareaRef}
           value={input}
           onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === 'Enter' && !e.shiftKey) {
-              e.preventDefault();
-              handleSend();
-            }
-          }}
-          placeholder={isImageAttached ? "Describe how you want to edit the image..." : "Type your message..."}
+          onPaste={handlePaste}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
           className="flex-1 bg-transparent border-none focus:ring-0 resize-none text-gray-100 placeholder-gray-400"
           rows={1}
           disabled={isLoading}
         />
-        <button
-          onClick={handleSend}
-          disabled={isLoading || (!input.trim() && !attachedFile)}
-          className="p-2 rounded-full bg-cyan-500 text-white disabled:bg-gray-600 hover:bg-cyan-600 transition-colors"
-        >
-          {isLoading ? (
-            <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-          ) : (
-            <SendIcon />
-          )}
-        </button>
+        {onStop ? (
+          <button
+            onClick={onStop}
+            className="p-2 rounded-full bg-red-500 text-white hover:bg-red-600 transition-colors"
+            title="Stop generating"
+          >
+            <StopIcon />
+          </button>
+        ) : (
+          <button
+            onClick={onSend}
+            disabled={isLoading || isRouting || (!input.trim() && attachedFiles.length === 0)}
+            className="p-2 rounded-full bg-cyan-500 text-white disabled:bg-gray-600 hover:bg-cyan-600 transition-colors"
+          >
+            {isLoading ? (
+              <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <SendIcon />
+            )}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -441,7 +1764,7 @@ const InputBar: React.FC<{
 
 const Modal: React.FC<{ children: React.ReactNode, title: string, onClose: () => void }> = ({ children, title, onClose }) => (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
-        <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={e => e.stopPropagation()}>
+        <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-lg font-bold text-white">{title}</h2>
                 <button onClick={onClose} className="text-gray-400 hover:text-white">
@@ -454,18 +1777,62 @@ const Modal: React.FC<{ children: React.ReactNode, title: string, onClose: () =>
 );
 
 
+function OptionPills<T extends string | number>({ label, options, value, onChange, format, isDisabled }: {
+    label: string;
+    options: T[];
+    value: T;
+    onChange: (value: T) => void;
+    format?: (value: T) => string;
+    isDisabled?: (value: T) => boolean;
+}) {
+    return (
+        <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+            <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                    <button key={option} onClick={() => onChange(option)} disabled={isDisabled?.(option)}
+                        className={`px-3 py-1 text-sm rounded-full disabled:opacity-40 disabled:cursor-not-allowed ${value === option ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                        {format ? format(option) : option}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = { 'image/jpeg': 'JPEG', 'image/png': 'PNG' };
+const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+    dont_allow: 'No people',
+    allow_adult: 'Adults only',
+    allow_all: 'Anyone',
+};
+
 const ImageGenerationModal: React.FC<{
     onClose: () => void;
-    onGenerate: (prompt: string, aspectRatio: AspectRatio) => void;
+    onGenerate: (request: ImageRequest) => void;
     isLoading: boolean;
 }> = ({ onClose, onGenerate, isLoading }) => {
     const [prompt, setPrompt] = useState('');
     const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+    const [numberOfImages, setNumberOfImages] = useState(1);
+    const [outputMimeType, setOutputMimeType] = useState<ImageFormat>('image/jpeg');
+    const [personGeneration, setPersonGeneration] = useState<PersonGeneration>('allow_adult');
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [seed, setSeed] = useState('');
     const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
 
     const handleGenerate = () => {
         if (prompt.trim()) {
-            onGenerate(prompt, aspectRatio);
+            const parsedSeed = parseInt(seed, 10);
+            onGenerate({
+                prompt,
+                aspectRatio,
+                numberOfImages,
+                outputMimeType,
+                personGeneration,
+                ...(negativePrompt.trim() && { negativePrompt: negativePrompt.trim() }),
+                ...(Number.isFinite(parsedSeed) && { seed: parsedSeed }),
+            });
             onClose();
         }
     };
@@ -480,16 +1847,23 @@ const ImageGenerationModal: React.FC<{
                     className="w-full bg-gray-700 rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500 text-white"
                     rows={3}
                 />
+                <OptionPills<AspectRatio> label="Aspect Ratio" options={aspectRatios} value={aspectRatio} onChange={setAspectRatio} />
+                <OptionPills<number> label="Number of Images" options={[1, 2, 3, 4]} value={numberOfImages} onChange={setNumberOfImages} />
+                <OptionPills<ImageFormat> label="Format" options={['image/jpeg', 'image/png']} value={outputMimeType} onChange={setOutputMimeType}
+                    format={f => IMAGE_FORMAT_LABELS[f]} />
+                <OptionPills<PersonGeneration> label="People" options={['dont_allow', 'allow_adult', 'allow_all']} value={personGeneration} onChange={setPersonGeneration}
+                    format={p => PERSON_GENERATION_LABELS[p]} />
                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
-                    <div className="flex flex-wrap gap-2">
-                        {aspectRatios.map(ar => (
-                            <button key={ar} onClick={() => setAspectRatio(ar)}
-                                className={`px-3 py-1 text-sm rounded-full ${aspectRatio === ar ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                                {ar}
-                            </button>
-                        ))}
-                    </div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Negative Prompt (Optional)</label>
+                    <input type="text" value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)}
+                        placeholder="What to keep out of the image, e.g. blurry, text"
+                        className="w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500"/>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Seed (Optional)</label>
+                    <input type="number" value={seed} onChange={(e) => setSeed(e.target.value)}
+                        placeholder="Random"
+                        className="w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500"/>
                 </div>
                 <button
                     onClick={handleGenerate}
@@ -503,71 +1877,147 @@ const ImageGenerationModal: React.FC<{
     );
 };
 
+const MAX_REFERENCE_IMAGES = 3;
+const VIDEO_QUALITY_LABELS: Record<VideoQuality, string> = { fast: 'Fast', quality: 'Quality' };
+const fileInputClass = "w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100";
+
 const VideoGenerationModal: React.FC<{
     onClose: () => void;
-    onGenerate: (prompt: string | null, image: FileData | null, aspectRatio: VideoAspectRatio) => void;
-}> = ({ onClose, onGenerate }) => {
+    // Resolves with false when the video wasn't started, e.g. over budget.
+    onGenerate: (request: VideoRequest) => Promise<boolean>;
+    // When set, the new video continues this one instead of starting fresh.
+    extendFrom?: VideoSource | null;
+}> = ({ onClose, onGenerate, extendFrom }) => {
     const [prompt, setPrompt] = useState('');
     const [imageFile, setImageFile] = useState<FileData | null>(null);
+    const [lastFrame, setLastFrame] = useState<FileData | null>(null);
+    const [referenceImages, setReferenceImages] = useState<FileData[]>([]);
     const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+    const [quality, setQuality] = useState<VideoQuality>('fast');
+    const [resolution, setResolution] = useState<VideoResolution>('720p');
+    const [numberOfVideos, setNumberOfVideos] = useState(1);
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [seed, setSeed] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const aspectRatios: VideoAspectRatio[] = ["16:9", "9:16"];
 
+    // Extensions are only produced at 720p; reference images only in landscape.
+    const effectiveResolution = extendFrom ? '720p' : resolution;
+    const effectiveAspectRatio = referenceImages.length > 0 ? '16:9' : aspectRatio;
+
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             const fileData = await fileToBase64(file);
             setImageFile(fileData);
+        } else {
+            setImageFile(null);
+            setLastFrame(null);
         }
     };
 
+    const handleLastFrameChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        setLastFrame(file ? await fileToBase64(file) : null);
+    };
+
+    const handleReferenceChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []).slice(0, MAX_REFERENCE_IMAGES);
+        setReferenceImages(await Promise.all(files.map(fileToBase64)));
+    };
+
+    const canGenerate = extendFrom ? !!prompt.trim() : !!(prompt.trim() || imageFile);
+
     const handleGenerate = async () => {
-        if (!prompt.trim() && !imageFile) {
+        if (!canGenerate) {
             return;
         }
         setIsLoading(true);
         if (typeof (window as any).aistudio === 'undefined' || !((window as any).aistudio.hasSelectedApiKey())) {
             await (window as any).aistudio.openSelectKey();
         }
-        await onGenerate(prompt || null, imageFile, aspectRatio);
+        const parsedSeed = parseInt(seed, 10);
+        const started = await onGenerate({
+            prompt: prompt.trim() || null,
+            image: extendFrom ? null : imageFile,
+            aspectRatio: effectiveAspectRatio,
+            quality,
+            resolution: effectiveResolution,
+            numberOfVideos,
+            ...(negativePrompt.trim() && { negativePrompt: negativePrompt.trim() }),
+            ...(Number.isFinite(parsedSeed) && { seed: parsedSeed }),
+            ...(!extendFrom && imageFile && lastFrame && { lastFrame }),
+            ...(!extendFrom && referenceImages.length > 0 && { referenceImages }),
+            ...(extendFrom && { extendVideoUri: extendFrom.uri }),
+        });
         setIsLoading(false);
-        onClose();
+        if (started) onClose();
     };
 
     return (
-        <Modal title="Generate Video with Veo" onClose={onClose}>
+        <Modal title={extendFrom ? "Extend Video with Veo" : "Generate Video with Veo"} onClose={onClose}>
             <div className="space-y-4">
-                <p className="text-sm text-gray-400">Provide a prompt and/or an initial image to generate a video. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Billing information</a></p>
+                {extendFrom ? (
+                    <div>
+                        <p className="text-sm text-gray-400 mb-2">Describe what happens next. Veo continues from the last second of this video; only videos generated in the last two days can be extended.</p>
+                        <video src={extendFrom.video} controls className="w-full max-h-40 rounded-lg bg-black"/>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-400">Provide a prompt and/or an initial image to generate a video. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">Billing information</a></p>
+                )}
                 <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="Enter a prompt for the video..."
+                    placeholder={extendFrom ? "Describe how the video continues..." : "Enter a prompt for the video..."}
                     className="w-full bg-gray-700 rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500 text-white"
                     rows={3}
                 />
+                {!extendFrom && (
+                    <>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Initial Image (Optional)</label>
+                            <input type="file" onChange={handleFileChange} accept="image/*" className={fileInputClass}/>
+                            {imageFile && <p className="text-xs text-gray-400 mt-1">Selected: {imageFile.name}</p>}
+                        </div>
+                        {imageFile && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-2">Last Frame (Optional)</label>
+                                <input type="file" onChange={handleLastFrameChange} accept="image/*" className={fileInputClass}/>
+                                <p className="text-xs text-gray-400 mt-1">Veo interpolates from the initial image to this one.</p>
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Reference Images (Optional, up to {MAX_REFERENCE_IMAGES})</label>
+                            <input type="file" onChange={handleReferenceChange} accept="image/*" multiple className={fileInputClass}/>
+                            {referenceImages.length > 0 && <p className="text-xs text-gray-400 mt-1">Selected: {referenceImages.map(ref => ref.name).join(', ')}. Videos with reference images are landscape.</p>}
+                        </div>
+                    </>
+                )}
+                <OptionPills<VideoAspectRatio> label="Aspect Ratio" options={aspectRatios} value={effectiveAspectRatio} onChange={setAspectRatio}
+                    isDisabled={ar => referenceImages.length > 0 && ar !== '16:9'} />
+                <OptionPills<VideoQuality> label="Model" options={['fast', 'quality']} value={quality} onChange={setQuality}
+                    format={q => VIDEO_QUALITY_LABELS[q]} />
+                <OptionPills<VideoResolution> label="Resolution" options={['720p', '1080p']} value={effectiveResolution} onChange={setResolution}
+                    isDisabled={r => !!extendFrom && r !== '720p'} />
+                <OptionPills<number> label="Number of Videos" options={[1, 2]} value={numberOfVideos} onChange={setNumberOfVideos} />
                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Initial Image (Optional)</label>
-                    <input type="file" onChange={handleFileChange} accept="image/*"
-                           className="w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100"/>
-                    {imageFile && <p className="text-xs text-gray-400 mt-1">Selected: {imageFile.name}</p>}
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Negative Prompt (Optional)</label>
+                    <input type="text" value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)}
+                        placeholder="What to keep out of the video, e.g. text overlays"
+                        className="w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500"/>
                 </div>
-                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
-                    <div className="flex flex-wrap gap-2">
-                        {aspectRatios.map(ar => (
-                            <button key={ar} onClick={() => setAspectRatio(ar)}
-                                className={`px-3 py-1 text-sm rounded-full ${aspectRatio === ar ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                                {ar}
-                            </button>
-                        ))}
-                    </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Seed (Optional)</label>
+                    <input type="number" value={seed} onChange={(e) => setSeed(e.target.value)}
+                        placeholder="Random"
+                        className="w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500"/>
                 </div>
                 <button
                     onClick={handleGenerate}
-                    disabled={isLoading || (!prompt.trim() && !imageFile)}
+                    disabled={isLoading || !canGenerate}
                     className="w-full bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500 flex items-center justify-center"
                 >
-                    {isLoading ? <><div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div><span>Generating...</span></> : 'Generate'}
+                    {isLoading ? <><div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div><span>Generating...</span></> : (extendFrom ? 'Extend' : 'Generate')}
                 </button>
             </div>
         </Modal>
@@ -575,19 +2025,74 @@ const VideoGenerationModal: React.FC<{
 };
 
 
-const LiveConversationUI: React.FC<{ onExit: () => void }> = ({ onExit }) => {
+const LiveToolCallLine: React.FC<{ call: LiveToolCall }> = ({ call }) => (
+    <p className="text-sm text-gray-400">
+        <strong className={call.error ? 'text-red-400' : 'text-amber-400'}>Tool:</strong> <span className="font-mono text-xs">{describeToolCall(call)}</span>
+    </p>
+);
+
+// A dropped Live connection is retried this many times, waiting twice as long each time.
+const LIVE_RECONNECT_ATTEMPTS = 5;
+const LIVE_RECONNECT_DELAY_MS = 1000;
+
+const LiveConversationUI: React.FC<{
+    persona: Persona | null,
+    settings: LiveSettings,
+    // The text chat, which the session starts with as context.
+    chatMessages: ChatMessage[],
+    toolActions: LiveChatActions,
+    // Receives the transcript when the session ends, however it is left.
+    onTranscript: (turns: LiveTurn[]) => void,
+    onExit: () => void,
+}> = ({ persona, settings, chatMessages, toolActions, onTranscript, onExit }) => {
     const [status, setStatus] = useState('Initializing...');
     const [permissionError, setPermissionError] = useState<string | null>(null);
     const [userTranscription, setUserTranscription] = useState('');
     const [modelTranscription, setModelTranscription] = useState('');
-    const [history, setHistory] = useState<{user: string, model: string}[]>([]);
+    const [toolCalls, setToolCalls] = useState<LiveToolCall[]>([]);
+    const [history, setHistory] = useState<LiveTurn[]>([]);
+    const [timers, setTimers] = useState<{ id: number, label: string, endsAt: number }[]>([]);
+    const startedAtRef = useRef(new Date());
 
     const currentInputTranscriptionRef = useRef('');
     const currentOutputTranscriptionRef = useRef('');
+    const currentToolCallsRef = useRef<LiveToolCall[]>([]);
+    // The latest props and transcript, since the session outlives renders.
+    const toolActionsRef = useRef(toolActions);
+    toolActionsRef.current = toolActions;
+    const chatMessagesRef = useRef(chatMessages);
+    chatMessagesRef.current = chatMessages;
+    const onTranscriptRef = useRef(onTranscript);
+    onTranscriptRef.current = onTranscript;
+    const historyRef = useRef(history);
+    historyRef.current = history;
+    // Lets a dropped connection pick up where it left off.
+    const resumptionHandleRef = useRef<string | undefined>(undefined);
+    const timerIdsRef = useRef<Set<number>>(new Set());
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const nextStartTimeRef = useRef(0);
     const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+
+    const [devices, setDevices] = useState<{ inputs: MediaDeviceInfo[], outputs: MediaDeviceInfo[] }>({ inputs: [], outputs: [] });
+    const [inputDeviceId, setInputDeviceId] = useState('');
+    const [outputDeviceId, setOutputDeviceId] = useState('');
+    // Bumped to reopen the microphone, e.g. after the one in use was unplugged.
+    const [captureAttempt, setCaptureAttempt] = useState(0);
+    const [level, setLevel] = useState(0);
+    const [isSending, setIsSending] = useState(false);
+    const [muted, setMuted] = useState(false);
+    const [talkMode, setTalkMode] = useState<TalkMode>('open');
+    const [isTalking, setIsTalking] = useState(false);
+    // Read by the capture callback, which outlives renders.
+    const mutedRef = useRef(false);
+    const talkModeRef = useRef<TalkMode>('open');
+    const talkingRef = useRef(false);
+    // Set from releasing the talk button until the rest of its audio is sent.
+    const releasingRef = useRef(false);
+    const sendingRef = useRef(false);
+    const gateRef = useRef(createSilenceGate());
+    const captureRef = useRef<AudioCapture | null>(null);
 
     const cleanup = useCallback(() => {
         if (sessionPromiseRef.current) {
@@ -600,17 +2105,99 @@ const LiveConversationUI: React.FC<{ onExit: () => void }> = ({ onExit }) => {
         }
     }, []);
 
+    // When a timer ends the model is told, so it can let the user know.
+    const startTimer = (seconds: number, label: string) => {
+        const id = window.setTimeout(() => {
+            timerIdsRef.current.delete(id);
+            setTimers(prev => prev.filter(timer => timer.id !== id));
+            sessionPromiseRef.current?.then(session =>
+                session.sendRealtimeInput({ text: `The timer "${label}" has finished. Tell the user.` }));
+        }, seconds * 1000);
+        timerIdsRef.current.add(id);
+        setTimers(prev => [...prev, { id, label, endsAt: Date.now() + seconds * 1000 }]);
+    };
+
+    const cancelTimer = (id: number) => {
+        clearTimeout(id);
+        timerIdsRef.current.delete(id);
+        setTimers(prev => prev.filter(timer => timer.id !== id));
+    };
+
+    useEffect(() => () => timerIdsRef.current.forEach(id => clearTimeout(id)), []);
+
+    // The turn in progress, when anything was said or called in it.
+    const pendingTurn = (): LiveTurn | null => {
+        const user = currentInputTranscriptionRef.current;
+        const model = currentOutputTranscriptionRef.current;
+        const calls = currentToolCallsRef.current;
+        return user.trim() || model.trim() || calls.length ? { user, model, ...(calls.length && { toolCalls: calls }) } : null;
+    };
+
+    // Leaving mid-turn keeps what was said so far.
+    useEffect(() => () => {
+        const turn = pendingTurn();
+        onTranscriptRef.current(turn ? [...historyRef.current, turn] : historyRef.current);
+    }, []);
+
     useEffect(() => {
         let isMounted = true;
-        let inputAudioContext: AudioContext;
-        let stream: MediaStream;
-        
+        let reconnectAttempts = 0;
+        let reconnectTimer: number | undefined;
+        // Calls the model has given up on; their results are not sent.
+        const cancelledCallIds = new Set<string>();
+        const registry = createToolRegistry(builtInTools({
+            generateImage: (prompt, aspectRatio) => toolActionsRef.current.generateImage(prompt, aspectRatio),
+            setMode: (mode) => toolActionsRef.current.setMode(mode),
+            isBusy: () => toolActionsRef.current.isBusy(),
+            getMessages: () => toolActionsRef.current.getMessages(),
+            startTimer,
+        }));
+
+        // A call may finish after its turn has moved into the history.
+        const updateToolCall = (id: string | undefined, update: Partial<LiveToolCall>) => {
+            const apply = (calls: LiveToolCall[]) => calls.map(call => call.id === id ? { ...call, ...update } : call);
+            currentToolCallsRef.current = apply(currentToolCallsRef.current);
+            setToolCalls(currentToolCallsRef.current);
+            setHistory(prev => prev.map(turn => turn.toolCalls ? { ...turn, toolCalls: apply(turn.toolCalls) } : turn));
+        };
+
+        // Responses go to the connection the calls came from; after a reconnect
+        // their ids mean nothing to the new session, so they are dropped.
+        const runToolCalls = async (functionCalls: FunctionCall[]) => {
+            const sessionPromise = sessionPromiseRef.current;
+            const calls = functionCalls.map((fc): LiveToolCall => ({ id: fc.id ?? crypto.randomUUID(), name: fc.name ?? '', args: fc.args ?? {} }));
+            currentToolCallsRef.current = [...currentToolCallsRef.current, ...calls];
+            setToolCalls(currentToolCallsRef.current);
+            const functionResponses = await Promise.all(calls.map(async (call, i) => {
+                const outcome = await registry.run(call.name, call.args);
+                if (isMounted) updateToolCall(call.id, outcome);
+                return { id: functionCalls[i].id, name: call.name, response: outcome.error ? { error: outcome.error } : { output: outcome.result } };
+            }));
+            const wanted = functionResponses.filter(({ id }) => !id || !cancelledCallIds.has(id));
+            if (isMounted && wanted.length && sessionPromise && sessionPromiseRef.current === sessionPromise) {
+                sessionPromise.then(session => session.sendToolResponse({ functionResponses: wanted }));
+            }
+        };
+
         if (!outputAudioContextRef.current) {
           outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
         }
         const outputNode = outputAudioContextRef.current.createGain();
         outputNode.connect(outputAudioContextRef.current.destination);
         
+        const finishTurn = () => {
+            const turn = pendingTurn();
+            if (turn) setHistory(prev => [...prev, turn]);
+
+            currentInputTranscriptionRef.current = '';
+            currentOutputTranscriptionRef.current = '';
+            currentToolCallsRef.current = [];
+            setUserTranscription('');
+            setModelTranscription('');
+            setToolCalls([]);
+        };
+
+        const textReplies = supportedLiveSettings(settings).responseModality === 'text';
         const processMessage = async (message: LiveServerMessage) => {
             if (!isMounted) return;
 
@@ -622,21 +2209,39 @@ const LiveConversationUI: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                  currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
                  setModelTranscription(currentOutputTranscriptionRef.current);
             }
+            if (message.toolCall?.functionCalls?.length) {
+                runToolCalls(message.toolCall.functionCalls);
+            }
+            if (message.toolCallCancellation?.ids) {
+                message.toolCallCancellation.ids.forEach(id => {
+                    cancelledCallIds.add(id);
+                    updateToolCall(id, { cancelled: true });
+                });
+            }
+            if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+                resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
+                reconnectAttempts = 0;
+            }
+            // The server is about to close the connection; move to a new one
+            // while the handle is fresh.
+            if (message.goAway && resumptionHandleRef.current) {
+                const previous = sessionPromiseRef.current;
+                connect();
+                previous?.then(session => session.close()).catch(() => {});
+            }
             if (message.serverContent?.turnComplete) {
-                const fullInput = currentInputTranscriptionRef.current;
-                const fullOutput = currentOutputTranscriptionRef.current;
-
-                if (fullInput.trim() || fullOutput.trim()) {
-                    setHistory(prev => [...prev, {user: fullInput, model: fullOutput}]);
-                }
-
-                currentInputTranscriptionRef.current = '';
-                currentOutputTranscriptionRef.current = '';
-                setUserTranscription('');
-                setModelTranscription('');
+                finishTurn();
             }
             
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
+            // Text replies arrive as parts rather than as a transcription. Spoken
+            // replies are transcribed already, so their text parts are skipped.
+            const replyText = textReplies && message.serverContent?.modelTurn?.parts?.filter(part => part.text && !part.thought).map(part => part.text).join('');
+            if (replyText) {
+                currentOutputTranscriptionRef.current += replyText;
+                setModelTranscription(currentOutputTranscriptionRef.current);
+            }
+
+            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (audioData && outputAudioContextRef.current) {
                 const ctx = outputAudioContextRef.current;
                 nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
@@ -661,70 +2266,251 @@ const LiveConversationUI: React.FC<{ onExit: () => void }> = ({ onExit }) => {
             }
         };
 
-        const setupLive = async () => {
-            try {
-                stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-                if (!isMounted) return;
-                
-                inputAudioContext = new AudioContext({ sampleRate: 16000 });
-                const source = inputAudioContext.createMediaStreamSource(stream);
-                const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-                
-                scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                    const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                    const l = inputData.length;
-                    const int16 = new Int16Array(l);
-                    for (let i = 0; i < l; i++) {
-                      int16[i] = inputData[i] * 32768;
-                    }
-                    const pcmBlob = {
-                      data: encode(new Uint8Array(int16.buffer)),
-                      mimeType: 'audio/pcm;rate=16000',
-                    };
-
-                    sessionPromiseRef.current?.then((session) => {
-                        if (isMounted) session.sendRealtimeInput({ media: pcmBlob });
-                    });
-                };
-                source.connect(scriptProcessor);
-                scriptProcessor.connect(inputAudioContext.destination);
-
-                sessionPromiseRef.current = connectLive({
-                    onOpen: () => { if (isMounted) setStatus('Connected. Start speaking...') },
-                    onMessage: processMessage,
-                    onError: (e) => {
-                        console.error('Live connection error:', e);
-                        if (isMounted) setStatus('Error occurred. Please try again.');
-                    },
-                    onClose: () => { if (isMounted) setStatus('Connection closed.') },
-                });
+        // A session is resumed from its last handle when there is one. Otherwise
+        // a new one starts with the text chat and what was said so far.
+        const connect = () => {
+            const resumptionHandle = resumptionHandleRef.current;
+            // Set once the server answers, which it doesn't when it refuses the handle.
+            let answered = false;
+            const sessionPromise = connectLive({
+                onOpen: () => { if (isMounted) setStatus('Connected. Start speaking...') },
+                onMessage: (message) => {
+                    answered = true;
+                    return processMessage(message);
+                },
+                onError: (e) => {
+                    console.error('Live connection error:', e);
+                    if (isMounted) setStatus('Error occurred. Please try again.');
+                },
+                onClose: () => handleDrop(sessionPromise, !answered),
+            }, {
+                ...supportedLiveSettings(settings),
+                systemInstruction: settings.systemInstruction?.trim() || persona?.systemPrompt.trim() || undefined,
+                voice: settings.voice || persona?.voice,
+                temperature: persona?.temperature,
+                tools: registry.declarations,
+                resumptionHandle,
+                ...(!resumptionHandle && {
+                    context: liveContext([...chatMessagesRef.current, ...liveTranscriptToMessages(historyRef.current)]),
+                }),
+            });
+            sessionPromise.catch(error => {
+                console.error('Error connecting to Live:', error);
+                handleDrop(sessionPromise, true);
+            });
+            sessionPromiseRef.current = sessionPromise;
+        };
 
-            } catch (err) {
-                console.error('Error getting user media:', err);
-                if (isMounted) {
-                    setStatus('Error');
-                    setPermissionError('Microphone access denied. Please enable it in your browser settings and restart the conversation.');
-                }
+        // Only the current connection is retried, once; replaced ones close quietly.
+        // A connection that failed before the server answered may have been
+        // refused its handle, so the next one starts fresh, with the chat and
+        // transcript as context.
+        const handleDrop = (sessionPromise: Promise<LiveSession>, failed: boolean) => {
+            if (!isMounted || sessionPromiseRef.current !== sessionPromise) return;
+            sessionPromiseRef.current = null;
+            if (failed) resumptionHandleRef.current = undefined;
+            finishTurn();
+            if (reconnectAttempts >= LIVE_RECONNECT_ATTEMPTS) {
+                setStatus('Connection closed.');
+                return;
             }
+            setStatus('Connection lost. Reconnecting...');
+            reconnectTimer = window.setTimeout(connect, LIVE_RECONNECT_DELAY_MS * 2 ** reconnectAttempts++);
         };
 
-        setupLive();
+        connect();
 
         return () => {
             isMounted = false;
+            clearTimeout(reconnectTimer);
             cleanup();
-            stream?.getTracks().forEach(track => track.stop());
-            if(inputAudioContext && inputAudioContext.state !== 'closed') {
-                inputAudioContext.close();
-            }
         };
 
     }, [cleanup]);
 
+    const sendAudio = (pcm: Int16Array) => {
+        sessionPromiseRef.current?.then(session =>
+            session.sendRealtimeInput({ audio: { data: encode(new Uint8Array(pcm.buffer)), mimeType: CAPTURE_MIME_TYPE } }));
+    };
+
+    const sendFrame = (base64: string) => {
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ video: { data: base64, mimeType: FRAME_MIME_TYPE } }));
+    };
+
+    // Tells the model the user stopped talking, so it answers without waiting.
+    const endAudio = () => {
+        sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+    };
+
+    const setSending = (sending: boolean) => {
+        if (sendingRef.current === sending) return;
+        sendingRef.current = sending;
+        setIsSending(sending);
+    };
+
+    const handleChunk = (pcm: Int16Array, rms: number) => {
+        if (mutedRef.current) return;
+        if (talkModeRef.current === 'ptt') {
+            if (talkingRef.current || releasingRef.current) sendAudio(pcm);
+            return;
+        }
+        const { send, ended } = gateRef.current(pcm, rms);
+        send.forEach(sendAudio);
+        if (ended) endAudio();
+        setSending(send.length > 0);
+    };
+
+    const refreshDevices = async () => {
+        const found = await listAudioDevices();
+        setDevices(found);
+        // A picked device that was unplugged falls back to the default one.
+        setInputDeviceId(id => found.inputs.some(d => d.deviceId === id) ? id : '');
+        setOutputDeviceId(id => found.outputs.some(d => d.deviceId === id) ? id : '');
+        return found;
+    };
+
+    // Plugging or unplugging a device updates the lists; when the microphone in
+    // use is gone, capture restarts on the default one.
+    useEffect(() => {
+        const handleDeviceChange = () => {
+            refreshDevices().then(({ inputs }) => {
+                const current = captureRef.current?.deviceId;
+                if (current && !inputs.some(d => d.deviceId === current)) setCaptureAttempt(n => n + 1);
+            }).catch(error => console.error('Error listing audio devices:', error));
+        };
+        navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    }, []);
+
+    // Capture restarts when another microphone is picked; the session stays open.
+    useEffect(() => {
+        let isMounted = true;
+        let capture: AudioCapture | null = null;
+        startCapture({
+            deviceId: inputDeviceId || undefined,
+            onChunk: (pcm, rms) => { if (isMounted) handleChunk(pcm, rms); },
+            onLevel: (rms) => { if (isMounted) setLevel(rms); },
+        }).then(started => {
+            if (!isMounted) return started.stop();
+            capture = started;
+            captureRef.current = started;
+            refreshDevices().catch(error => console.error('Error listing audio devices:', error));
+        }).catch(err => {
+            console.error('Error getting user media:', err);
+            if (!isMounted) return;
+            const denied = err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError');
+            // A microphone picked during the session that can't be opened isn't fatal.
+            if (inputDeviceId && !denied) {
+                setStatus("Couldn't open that microphone. Using the default one.");
+                setInputDeviceId('');
+                return;
+            }
+            setStatus('Error');
+            setPermissionError(denied
+                ? 'Microphone access denied. Please enable it in your browser settings and restart the conversation.'
+                : "Couldn't open the microphone. Check that one is connected and restart the conversation.");
+        });
+        return () => {
+            isMounted = false;
+            capture?.stop();
+            if (captureRef.current === capture) captureRef.current = null;
+            setLevel(0);
+        };
+    }, [inputDeviceId, captureAttempt]);
+
+    useEffect(() => {
+        const ctx = outputAudioContextRef.current;
+        if (!ctx || !canSelectOutput()) return;
+        setOutputDevice(ctx, outputDeviceId).catch(error => console.error('Error switching speaker:', error));
+    }, [outputDeviceId]);
+
+    const startTalking = () => {
+        if (mutedRef.current || talkingRef.current) return;
+        talkingRef.current = true;
+        setIsTalking(true);
+        setSending(true);
+    };
+
+    const stopTalking = () => {
+        if (!talkingRef.current) return;
+        talkingRef.current = false;
+        setIsTalking(false);
+        setSending(false);
+        endAudio();
+    };
+
+    // Releasing the talk button sends what the capture still holds before the
+    // turn ends; chunks arriving until then were recorded while it was held.
+    const releaseTalk = () => {
+        if (!talkingRef.current) return;
+        talkingRef.current = false;
+        releasingRef.current = true;
+        setIsTalking(false);
+        setSending(false);
+        (captureRef.current?.flush() ?? Promise.resolve(new Int16Array(0))).then(pcm => {
+            releasingRef.current = false;
+            if (pcm.length > 0) sendAudio(pcm);
+            if (!talkingRef.current) endAudio();
+        });
+    };
+
+    // Anything being sent is ended, so a pause or mode switch reads as the end of a turn.
+    const handleMuteToggle = () => {
+        mutedRef.current = !mutedRef.current;
+        setMuted(mutedRef.current);
+        if (mutedRef.current) {
+            stopTalking();
+            if (sendingRef.current) endAudio();
+            setSending(false);
+        }
+    };
+
+    const handleTalkModeChange = (mode: TalkMode) => {
+        stopTalking();
+        if (sendingRef.current) endAudio();
+        setSending(false);
+        gateRef.current = createSilenceGate();
+        talkModeRef.current = mode;
+        setTalkMode(mode);
+    };
+
+    // Space works as the talk button, except while typing or using a control
+    // other than the talk controls, which keep focus after a click. Space is
+    // kept from also pressing the focused talk control.
+    useEffect(() => {
+        if (talkMode !== 'ptt') return;
+        const isControl = (target: EventTarget | null) =>
+            target instanceof HTMLElement && !!target.closest('input, textarea, select, button:not([data-talk-control])');
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isControl(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) startTalking();
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space') return;
+            if (!isControl(e.target)) e.preventDefault();
+            releaseTalk();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, [talkMode]);
+
+    // Exports as a chat, so a JSON export can be imported and continued in text.
+    const exportTranscript = (format: ExportFormat) => downloadConversation({
+        title: `Live conversation ${startedAtRef.current.toLocaleString()}`,
+        mode: AppMode.FLASH,
+        ...(persona && { personaId: persona.id }),
+        messages: liveTranscriptToMessages(history),
+    }, format).catch(error => console.error('Error exporting transcript:', error));
+
     return (
-        <div className="flex-1 flex flex-col items-center justify-center p-4 bg-gray-900 text-white">
+        <div className="flex-1 flex flex-col items-center overflow-y-auto p-4 bg-gray-900 text-white">
              {permissionError ? (
-                <div className="text-center w-full max-w-md p-6 bg-gray-800 rounded-lg shadow-xl">
+                <div className="my-auto text-center w-full max-w-md p-6 bg-gray-800 rounded-lg shadow-xl">
                     <h2 className="text-xl font-bold text-red-500 mb-4">Microphone Access Required</h2>
                     <p className="text-gray-300 mb-6">{permissionError}</p>
                     <button onClick={onExit} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-6 rounded-lg transition-colors">
@@ -732,22 +2518,66 @@ const LiveConversationUI: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                     </button>
                 </div>
             ) : (
-                <div className="text-center w-full max-w-2xl">
+                <div className="my-auto text-center w-full max-w-2xl">
                     <p className="text-lg font-semibold text-cyan-400 mb-2">{status}</p>
+                    {persona && <p className="text-sm text-gray-400 mb-2">Talking with {persona.name} ({settings.voice || persona.voice})</p>}
+                    {timers.length > 0 && (
+                        <div className="flex flex-wrap justify-center gap-2 mb-4">
+                            {timers.map(timer => (
+                                <span key={timer.id} className="flex items-center gap-1 px-3 py-1 text-xs rounded-full bg-gray-700 text-gray-200">
+                                    {timer.label} · ends {new Date(timer.endsAt).toLocaleTimeString()}
+                                    <button onClick={() => cancelTimer(timer.id)} title="Cancel timer" className="text-gray-400 hover:text-white">
+                                        <CloseIcon className="w-3 h-3"/>
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <LiveAudioControls
+                        inputs={devices.inputs}
+                        outputs={devices.outputs}
+                        inputDeviceId={inputDeviceId}
+                        outputDeviceId={outputDeviceId}
+                        onInputChange={setInputDeviceId}
+                        onOutputChange={canSelectOutput() ? setOutputDeviceId : undefined}
+                        level={level}
+                        isSending={isSending}
+                        muted={muted}
+                        onMuteToggle={handleMuteToggle}
+                        talkMode={talkMode}
+                        onTalkModeChange={handleTalkModeChange}
+                        isTalking={isTalking}
+                        onTalkStart={startTalking}
+                        onTalkEnd={releaseTalk}
+                    />
+                    <LiveVideoShare onFrame={sendFrame} />
                     <div className="min-h-[12rem] bg-gray-800 rounded-lg p-4 text-left space-y-4 overflow-y-auto">
                        {history.map((turn, i) => (
                            <div key={i} className="pb-2 mb-2 border-b border-gray-700 last:border-b-0">
                                <p><strong className="text-gray-400">You:</strong> {turn.user}</p>
+                               {turn.toolCalls?.map((call, j) => <LiveToolCallLine key={call.id ?? j} call={call}/>)}
                                <p><strong className="text-cyan-400">AI:</strong> {turn.model}</p>
                            </div>
                        ))}
-                        {(userTranscription || modelTranscription) && (
+                        {(userTranscription || modelTranscription || toolCalls.length > 0) && (
                             <div>
                                 <p><strong className="text-gray-400">You:</strong> {userTranscription}</p>
+                                {toolCalls.map((call, j) => <LiveToolCallLine key={call.id ?? j} call={call}/>)}
                                 <p><strong className="text-cyan-400">AI:</strong> {modelTranscription}<span className="inline-block w-2 h-4 bg-cyan-400 ml-1 animate-pulse"></span></p>
                             </div>
                         )}
                     </div>
+                    {history.length > 0 && (
+                        <div className="mt-3 flex justify-center items-center gap-2 text-sm text-gray-400">
+                            <span>Export transcript:</span>
+                            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                                <button key={format} onClick={() => exportTranscript(format)}
+                                    className="px-3 py-1 text-xs rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200">
+                                    {EXPORT_FORMAT_LABELS[format]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                      <button onClick={onExit} className="mt-6 bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg">
                         End Conversation
                     </button>
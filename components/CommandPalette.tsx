@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  // Shown next to the label, e.g. the matching slash command.
+  hint?: string;
+  run: () => void;
+}
+
+// A keyboard-driven list of actions, filtered as the user types.
+export const CommandPalette: React.FC<{
+  actions: PaletteAction[];
+  onClose: () => void;
+}> = ({ actions, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = actions.filter(action => {
+    const haystack = `${action.label} ${action.hint ?? ''}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+  const active = Math.min(highlighted, matches.length - 1);
+
+  const run = (action: PaletteAction) => {
+    onClose();
+    action.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((active + step + matches.length) % Math.max(matches.length, 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (matches[active]) run(matches[active]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-start justify-center pt-[15vh] z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-lg overflow-hidden" onClick={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setHighlighted(0); }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command..."
+          className="w-full bg-gray-900 border-none px-4 py-3 text-white placeholder-gray-500 focus:ring-0"
+        />
+        <ul className="max-h-80 overflow-y-auto py-1">
+          {matches.map((action, index) => (
+            <li key={action.id}>
+              <button
+                onClick={() => run(action)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`w-full flex items-center justify-between gap-4 px-4 py-2 text-left text-sm ${index === active ? 'bg-cyan-600 text-white' : 'text-gray-200'}`}
+              >
+                <span>{action.label}</span>
+                {action.hint && <span className={`text-xs font-mono truncate ${index === active ? 'text-cyan-100' : 'text-gray-500'}`}>{action.hint}</span>}
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && <li className="px-4 py-2 text-sm text-gray-400">No matching commands.</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
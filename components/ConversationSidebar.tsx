@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConversationSummary } from '../types';
+import { PencilIcon, PlusIcon, TrashIcon } from './Icons';
+
+const ConversationItem: React.FC<{
+  conversation: ConversationSummary;
+  isActive: boolean;
+  disabled: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}> = ({ conversation, isActive, disabled, onSelect, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const commitRename = () => {
+    setIsEditing(false);
+    if (title.trim() && title !== conversation.title) onRename(title);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="px-2 py-1">
+        <input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              setTitle(conversation.title);
+              setIsEditing(false);
+            }
+          }}
+          className="w-full bg-gray-700 rounded px-2 py-1 text-sm text-white focus:ring-cyan-500"
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className={`group flex items-center rounded-lg ${isActive ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}>
+      <button
+        onClick={onSelect}
+        disabled={disabled}
+        className={`flex-1 text-left px-3 py-2 text-sm truncate disabled:cursor-not-allowed ${isActive ? 'text-cyan-400' : 'text-gray-300'}`}
+        title={conversation.title}
+      >
+        {conversation.title}
+      </button>
+      <div className="hidden group-hover:flex items-center pr-1">
+        <button onClick={() => { setTitle(conversation.title); setIsEditing(true); }} className="p-1 text-gray-400 hover:text-white" title="Rename">
+          <PencilIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => { if (window.confirm(`Delete "${conversation.title}"?`)) onDelete(); }}
+          disabled={disabled}
+          className="p-1 text-gray-400 hover:text-red-400 disabled:cursor-not-allowed"
+          title="Delete"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const ConversationSidebar: React.FC<{
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  disabled: boolean;
+  onSearch: (query: string) => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  // Called with a conversation exported as JSON.
+  onImport: (file: File) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ conversations, activeId, disabled, onSearch, onSelect, onCreate, onImport, onRename, onDelete }) => {
+  const [query, setQuery] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => onSearch(query), 200);
+    return () => clearTimeout(timer);
+  }, [query, onSearch]);
+
+  return (
+    <aside className="w-64 flex-shrink-0 flex flex-col bg-gray-800 border-r border-gray-700">
+      <div className="p-3 space-y-2 border-b border-gray-700">
+        <div className="flex gap-2">
+          <button
+            onClick={onCreate}
+            disabled={disabled}
+            className="flex-1 flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold py-2 rounded-lg disabled:bg-gray-600"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New chat
+          </button>
+          <input type="file" ref={importInputRef} accept="application/json,.json" className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }} />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={disabled}
+            className="px-3 text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg disabled:cursor-not-allowed"
+            title="Import a conversation exported as JSON"
+          >
+            Import
+          </button>
+        </div>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full bg-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-100 placeholder-gray-400 focus:ring-cyan-500"
+        />
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.map(conversation => (
+          <ConversationItem
+            key={conversation.id}
+            conversation={conversation}
+            isActive={conversation.id === activeId}
+            disabled={disabled}
+            onSelect={() => onSelect(conversation.id)}
+            onRename={(title) => onRename(conversation.id, title)}
+            onDelete={() => onDelete(conversation.id)}
+          />
+        ))}
+        {conversations.length === 0 && (
+          <li className="px-3 py-2 text-sm text-gray-500">{query ? 'No matches.' : 'No conversations yet.'}</li>
+        )}
+      </ul>
+    </aside>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { AppMode, GenerationSettings, SafetyCategory, SafetyThreshold } from '../types';
+import { CloseIcon } from './Icons';
+
+const MAX_STOP_SEQUENCES = 5;
+const DEFAULT_CUSTOM_THINKING_BUDGET = 8192;
+
+const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  harassment: 'Harassment',
+  hate: 'Hate speech',
+  sexual: 'Sexually explicit',
+  dangerous: 'Dangerous content',
+};
+
+const SAFETY_THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+  none: 'Block none',
+  high: 'Block few',
+  medium: 'Block some',
+  low: 'Block most',
+};
+
+type ThinkingChoice = 'default' | 'off' | 'dynamic' | 'custom';
+
+const thinkingChoice = (budget?: number): ThinkingChoice =>
+  budget === undefined ? 'default' : budget === 0 ? 'off' : budget === -1 ? 'dynamic' : 'custom';
+
+const inputClass = "w-full bg-gray-700 rounded-lg p-2 text-sm text-white placeholder-gray-500 focus:ring-cyan-500 focus:border-cyan-500";
+
+// A number field where an empty value means "use the model's default".
+const NumberSetting: React.FC<{
+  label: string;
+  value?: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, min, max, step = 1, onChange }) => (
+  <label className="block text-sm text-gray-300 space-y-1">
+    <span>{label}</span>
+    <input type="number" min={min} max={max} step={step} value={value ?? ''} placeholder="Default"
+      onChange={(e) => {
+        if (e.target.value === '') return onChange(undefined);
+        const n = Number(e.target.value);
+        if (Number.isFinite(n)) onChange(Math.min(max, Math.max(min, n)));
+      }}
+      className={inputClass} />
+  </label>
+);
+
+// Side panel for the conversation's advanced generation settings.
+export const GenerationSettingsDrawer: React.FC<{
+  settings: GenerationSettings;
+  mode: AppMode;
+  onChange: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}> = ({ settings, mode, onChange, onClose }) => {
+  // Fields set to undefined are removed, so they fall back to persona and model defaults.
+  const set = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    const next = { ...settings };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  const setSafety = (category: SafetyCategory, threshold: SafetyThreshold | '') => {
+    const safety = { ...settings.safety };
+    if (threshold) safety[category] = threshold;
+    else delete safety[category];
+    set('safety', Object.keys(safety).length > 0 ? safety : undefined);
+  };
+
+  const thinking = thinkingChoice(settings.thinkingBudget);
+  const setThinking = (choice: ThinkingChoice) => set('thinkingBudget', {
+    default: undefined,
+    off: 0,
+    dynamic: -1,
+    custom: DEFAULT_CUSTOM_THINKING_BUDGET,
+  }[choice]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-40" onClick={onClose}>
+      <aside className="absolute right-0 inset-y-0 w-full max-w-sm bg-gray-800 shadow-xl p-5 overflow-y-auto space-y-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white">Generation Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <CloseIcon />
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Saved with this conversation. Empty fields use the persona's or the model's defaults.</p>
+
+        <section className="space-y-3">
+          <NumberSetting label="Temperature" value={settings.temperature} min={0} max={2} step={0.1} onChange={(v) => set('temperature', v)} />
+          <div className="grid grid-cols-2 gap-3">
+            <NumberSetting label="Top P" value={settings.topP} min={0} max={1} step={0.05} onChange={(v) => set('topP', v)} />
+            <NumberSetting label="Top K" value={settings.topK} min={1} max={100} onChange={(v) => set('topK', v && Math.round(v))} />
+          </div>
+          <NumberSetting label="Max output tokens" value={settings.maxOutputTokens} min={1} max={65536} onChange={(v) => set('maxOutputTokens', v && Math.round(v))} />
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>Stop sequences (one per line, up to {MAX_STOP_SEQUENCES})</span>
+            <textarea rows={2} value={(settings.stopSequences ?? []).join('\n')}
+              onChange={(e) => {
+                const sequences = e.target.value.split('\n').slice(0, MAX_STOP_SEQUENCES);
+                set('stopSequences', sequences.some(s => s) ? sequences : undefined);
+              }}
+              className={inputClass} />
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-200">Thinking</h3>
+          <div className="flex flex-wrap gap-2">
+            {(['default', 'off', 'dynamic', 'custom'] as ThinkingChoice[]).map(choice => (
+              <button key={choice} onClick={() => setThinking(choice)}
+                className={`px-3 py-1 text-sm rounded-full capitalize ${thinking === choice ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                {choice}
+              </button>
+            ))}
+          </div>
+          {thinking === 'custom' && (
+            <NumberSetting label="Thinking budget (tokens)" value={settings.thinkingBudget} min={1} max={32768}
+              onChange={(v) => set('thinkingBudget', v === undefined ? undefined : Math.round(v))} />
+          )}
+          {mode === AppMode.PRO && thinking === 'off' && (
+            <p className="text-xs text-amber-400">Pro can't turn thinking off; it will think dynamically instead.</p>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={!!settings.includeThoughts} onChange={(e) => set('includeThoughts', e.target.checked || undefined)} />
+            Show reasoning summaries
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-200">Safety</h3>
+          {(Object.keys(SAFETY_CATEGORY_LABELS) as SafetyCategory[]).map(category => (
+            <label key={category} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+              <span>{SAFETY_CATEGORY_LABELS[category]}</span>
+              <select value={settings.safety?.[category] ?? ''} onChange={(e) => setSafety(category, e.target.value as SafetyThreshold | '')}
+                className="bg-gray-700 rounded-lg py-1 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500">
+                <option value="">Default</option>
+                {(Object.keys(SAFETY_THRESHOLD_LABELS) as SafetyThreshold[]).map(threshold => (
+                  <option key={threshold} value={threshold}>{SAFETY_THRESHOLD_LABELS[threshold]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </section>
+
+        <button onClick={() => onChange({})} disabled={Object.keys(settings).length === 0}
+          className="w-full py-2 text-sm font-semibold rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40">
+          Reset to defaults
+        </button>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { meterLevel } from '../services/audioCapture';
+import { MicIcon, MicOffIcon } from './Icons';
+
+// Always-on streams whenever speech is detected; push-to-talk only while the
+// talk button (or Space) is held. Space still works while a control marked
+// `data-talk-control` has focus.
+export type TalkMode = 'open' | 'ptt';
+
+const selectClass = "bg-gray-700 rounded-lg py-1 text-sm text-white max-w-[12rem] focus:ring-cyan-500 focus:border-cyan-500";
+
+const deviceLabel = (device: MediaDeviceInfo, index: number, kind: string) =>
+  device.label || `${kind} ${index + 1}`;
+
+// Microphone and speaker pickers, level meter, mute and talk mode for a Live session.
+export const LiveAudioControls: React.FC<{
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  inputDeviceId: string;
+  outputDeviceId: string;
+  // Unset when the browser can't pick an output device.
+  onOutputChange?: (deviceId: string) => void;
+  onInputChange: (deviceId: string) => void;
+  // RMS level of the microphone.
+  level: number;
+  isSending: boolean;
+  muted: boolean;
+  onMuteToggle: () => void;
+  talkMode: TalkMode;
+  onTalkModeChange: (mode: TalkMode) => void;
+  isTalking: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+}> = ({
+  inputs, outputs, inputDeviceId, outputDeviceId, onInputChange, onOutputChange, level, isSending,
+  muted, onMuteToggle, talkMode, onTalkModeChange, isTalking, onTalkStart, onTalkEnd,
+}) => (
+  <div className="w-full max-w-2xl mb-4 space-y-3">
+    <div className="flex flex-wrap justify-center items-center gap-3 text-sm text-gray-300">
+      <label className="flex items-center gap-2">
+        <span>Mic</span>
+        <select value={inputDeviceId} onChange={(e) => onInputChange(e.target.value)} className={selectClass}>
+          <option value="">System default</option>
+          {inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Microphone')}</option>
+          ))}
+        </select>
+      </label>
+      {onOutputChange && (
+        <label className="flex items-center gap-2">
+          <span>Speaker</span>
+          <select value={outputDeviceId} onChange={(e) => onOutputChange(e.target.value)} className={selectClass}>
+            <option value="">System default</option>
+            {outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Speaker')}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="flex bg-gray-800 rounded-lg p-0.5">
+        {([['open', 'Always on'], ['ptt', 'Push to talk']] as [TalkMode, string][]).map(([mode, label]) => (
+          <button key={mode} onClick={() => onTalkModeChange(mode)} data-talk-control
+            className={`px-3 py-1 text-xs rounded-md ${talkMode === mode ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div className="flex items-center gap-3">
+      <button onClick={onMuteToggle} title={muted ? 'Unmute' : 'Mute'}
+        className={`p-2 rounded-full ${muted ? 'bg-red-500 text-white' : 'bg-gray-700 text-gray-300 hover:text-cyan-400'}`}>
+        {muted ? <MicOffIcon className="w-5 h-5"/> : <MicIcon className="w-5 h-5"/>}
+      </button>
+      <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden" title="Microphone level">
+        <div className={`h-full transition-[width] duration-75 ${muted ? 'bg-gray-500' : isSending ? 'bg-cyan-400' : 'bg-gray-400'}`}
+          style={{ width: `${meterLevel(level) * 100}%` }} />
+      </div>
+      <span className="w-20 text-xs text-gray-400 text-right">{muted ? 'Muted' : isSending ? 'Sending' : 'Idle'}</span>
+    </div>
+    {talkMode === 'ptt' && (
+      <button
+        onPointerDown={onTalkStart}
+        onPointerUp={onTalkEnd}
+        onPointerLeave={() => { if (isTalking) onTalkEnd(); }}
+        disabled={muted}
+        data-talk-control
+        className={`w-full py-3 rounded-lg font-semibold select-none touch-none disabled:opacity-40 ${isTalking ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+      >
+        {isTalking ? 'Listening… release to send' : 'Hold to talk (or hold Space)'}
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { LiveModel, LivePreset, LiveResponseModality, LiveSettings, Persona, VadSensitivity } from '../types';
+import { DEFAULT_VOICE, PERSONA_VOICES } from '../services/personaStore';
+import {
+  DEFAULT_LIVE_SETTINGS, LIVE_LANGUAGES, LIVE_MODEL_LABELS, RESPONSE_MODALITY_LABELS, VAD_SENSITIVITY_LABELS,
+  deleteLivePreset, getLiveSettings, listLivePresets, saveLivePreset, saveLiveSettings, supportedLiveSettings,
+} from '../services/liveSettings';
+import { SpeakerIcon, TrashIcon } from './Icons';
+
+const inputClass = "w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-40";
+
+const VOICE_PREVIEW_TEXT = 'Hi! This is how I sound in a Live conversation.';
+
+// Chosen before a Live session starts: model, voice, language, replies and
+// turn detection, with named presets. The settings used are remembered.
+export const LiveSettingsPanel: React.FC<{
+  persona: Persona | null;
+  // Reads a sample aloud in the voice; rejects when it can't.
+  onPreviewVoice: (text: string, voice: string) => Promise<void>;
+  onStart: (settings: LiveSettings) => void;
+  onCancel: () => void;
+}> = ({ persona, onPreviewVoice, onStart, onCancel }) => {
+  const [settings, setSettings] = useState<LiveSettings>(DEFAULT_LIVE_SETTINGS);
+  const [presets, setPresets] = useState<LivePreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getLiveSettings(), listLivePresets()])
+      .then(([saved, savedPresets]) => {
+        setSettings(saved);
+        setPresets(savedPresets);
+      })
+      .catch(error => console.error('Error loading Live settings:', error));
+  }, []);
+
+  const update = (fields: Partial<LiveSettings>) => setSettings(prev => ({ ...prev, ...fields }));
+  const isNative = settings.model === 'native-audio';
+  const fallbackVoice = persona?.voice ?? DEFAULT_VOICE;
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setNotice(null);
+    try {
+      await onPreviewVoice(VOICE_PREVIEW_TEXT, settings.voice || fallbackVoice);
+    } catch (error) {
+      console.error('Error previewing voice:', error);
+      setNotice("Couldn't preview that voice.");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setSettings(preset.settings);
+    setPresetName(preset.name);
+    setNotice(null);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      setPresets(await saveLivePreset({ name, settings: supportedLiveSettings(settings) }));
+      setNotice(`Saved preset "${name}".`);
+    } catch (error) {
+      console.error('Error saving Live preset:', error);
+      setNotice("Couldn't save the preset.");
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const name = presetName.trim();
+    try {
+      setPresets(await deleteLivePreset(name));
+      setPresetName('');
+      setNotice(`Deleted preset "${name}".`);
+    } catch (error) {
+      console.error('Error deleting Live preset:', error);
+      setNotice("Couldn't delete the preset.");
+    }
+  };
+
+  // When the settings can't be saved, the user is told first; starting again
+  // uses them for this session only.
+  const handleStart = async () => {
+    const chosen = supportedLiveSettings(settings);
+    try {
+      await saveLiveSettings(chosen);
+    } catch (error) {
+      console.error('Error saving Live settings:', error);
+      if (!saveFailed) {
+        setSaveFailed(true);
+        setNotice("Couldn't save these settings. Start again to use them for this session only.");
+        return;
+      }
+    }
+    onStart(chosen);
+  };
+
+  const sensitivitySelect = (value: VadSensitivity, onChange: (value: VadSensitivity) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as VadSensitivity)} className={inputClass}>
+      {(Object.keys(VAD_SENSITIVITY_LABELS) as VadSensitivity[]).map(s => <option key={s} value={s}>{VAD_SENSITIVITY_LABELS[s]}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="my-auto w-full max-w-xl p-6 bg-gray-800 rounded-lg shadow-xl space-y-4 text-left">
+      <h2 className="text-xl font-bold text-white">Live settings</h2>
+
+      <div className="flex gap-2">
+        <select value={presets.some(p => p.name === presetName) ? presetName : ''} onChange={(e) => handleApplyPreset(e.target.value)} className={inputClass}>
+          <option value="">Presets…</option>
+          {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+        </select>
+        <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className={inputClass} />
+        <button onClick={handleSavePreset} disabled={!presetName.trim()}
+          className="px-3 py-1.5 text-xs rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40 whitespace-nowrap">
+          Save preset
+        </button>
+        <button onClick={handleDeletePreset} disabled={!presets.some(p => p.name === presetName.trim())} title="Delete preset"
+          className="px-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-40">
+          <TrashIcon className="w-5 h-5"/>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Model</span>
+          <select value={settings.model} onChange={(e) => update({ model: e.target.value as LiveModel })} className={inputClass}>
+            {(Object.keys(LIVE_MODEL_LABELS) as LiveModel[]).map(model => <option key={model} value={model}>{LIVE_MODEL_LABELS[model]}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Replies</span>
+          <select value={isNative ? 'audio' : settings.responseModality} disabled={isNative}
+            onChange={(e) => update({ responseModality: e.target.value as LiveResponseModality })} className={inputClass}>
+            {(Object.keys(RESPONSE_MODALITY_LABELS) as LiveResponseModality[]).map(m => <option key={m} value={m}>{RESPONSE_MODALITY_LABELS[m]}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Voice</span>
+          <div className="flex gap-2">
+            <select value={settings.voice ?? ''} onChange={(e) => update({ voice: e.target.value || undefined })} className={inputClass}>
+              <option value="">{persona ? `${persona.name}'s voice` : 'Default'} ({fallbackVoice})</option>
+              {PERSONA_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+            <button onClick={handlePreview} disabled={isPreviewing} title="Preview voice"
+              className="px-2 rounded-lg bg-gray-700 text-gray-300 hover:text-cyan-400 disabled:opacity-40">
+              <SpeakerIcon className="w-5 h-5"/>
+            </button>
+          </div>
+        </label>
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Language</span>
+          <select value={isNative ? '' : settings.languageCode ?? ''} disabled={isNative}
+            onChange={(e) => update({ languageCode: e.target.value || undefined })} className={inputClass}>
+            <option value="">Automatic</option>
+            {Object.entries(LIVE_LANGUAGES).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+          </select>
+        </label>
+      </div>
+      {isNative && <p className="text-xs text-gray-400">Native audio models always reply by voice and pick the language from the conversation.</p>}
+
+      <textarea value={settings.systemInstruction ?? ''} onChange={(e) => update({ systemInstruction: e.target.value || undefined })}
+        rows={3} className={inputClass}
+        placeholder={persona?.systemPrompt.trim() ? `${persona.name}'s prompt: ${persona.systemPrompt.trim()}` : 'System prompt (leave empty for the default)'} />
+
+      <div className="space-y-2 text-sm text-gray-300">
+        <label className={`flex items-center gap-2 ${isNative ? '' : 'opacity-40'}`}>
+          <input type="checkbox" checked={isNative && settings.affectiveDialog} disabled={!isNative}
+            onChange={(e) => update({ affectiveDialog: e.target.checked })} />
+          Affective dialog (adapts its tone to yours)
+        </label>
+        <label className={`flex items-center gap-2 ${isNative ? '' : 'opacity-40'}`}>
+          <input type="checkbox" checked={isNative && settings.proactiveAudio} disabled={!isNative}
+            onChange={(e) => update({ proactiveAudio: e.target.checked })} />
+          Proactive audio (may stay quiet when not addressed)
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Speech start</span>
+          {sensitivitySelect(settings.startSensitivity, startSensitivity => update({ startSensitivity }))}
+        </label>
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Speech end</span>
+          {sensitivitySelect(settings.endSensitivity, endSensitivity => update({ endSensitivity }))}
+        </label>
+        <label className="text-sm text-gray-300 space-y-1">
+          <span>Silence (ms)</span>
+          <input type="number" min={0} step={100} value={settings.silenceDurationMs ?? ''} placeholder="Default"
+            onChange={(e) => update({ silenceDurationMs: e.target.value ? Math.max(0, Number(e.target.value)) : undefined })}
+            className={inputClass} />
+        </label>
+      </div>
+
+      {notice && <p className="text-sm text-gray-400">{notice}</p>}
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 py-2 px-4 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200">
+          Back to Chat
+        </button>
+        <button onClick={handleStart} className="flex-1 bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg">
+          Start Conversation
+        </button>
+      </div>
+    </div>
+  );
+};
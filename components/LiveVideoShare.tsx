@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_FRAME_RATE, FRAME_RATES, FrameCapture, FrameSource, startFrameCapture } from '../services/frameCapture';
+import { VideoIcon } from './Icons';
+
+const SOURCE_LABELS: Record<FrameSource, string> = { camera: 'Camera', screen: 'Screen' };
+
+// Lets the user show the model their camera or screen during a Live session,
+// with a local preview of what is being sent.
+export const LiveVideoShare: React.FC<{
+  // Base64-encoded JPEG frames.
+  onFrame: (base64: string) => void;
+}> = ({ onFrame }) => {
+  const [source, setSource] = useState<FrameSource | null>(null);
+  const [framesPerSecond, setFramesPerSecond] = useState(DEFAULT_FRAME_RATE);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  // The latest callback, so a new one doesn't restart capture.
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+  // A new frame rate is applied to the running capture, so the browser
+  // doesn't ask for the camera or screen again.
+  const framesPerSecondRef = useRef(framesPerSecond);
+  framesPerSecondRef.current = framesPerSecond;
+  const captureRef = useRef<FrameCapture | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    let isMounted = true;
+    let capture: FrameCapture | null = null;
+    setError(null);
+    startFrameCapture({
+      source,
+      framesPerSecond: framesPerSecondRef.current,
+      onFrame: (base64) => { if (isMounted) onFrameRef.current(base64); },
+      onEnded: () => { if (isMounted) setSource(null); },
+    }).then(started => {
+      if (!isMounted) return started.stop();
+      capture = started;
+      captureRef.current = started;
+      // The rate may have changed while the picker was open.
+      started.setFramesPerSecond(framesPerSecondRef.current);
+      setStream(started.stream);
+    }).catch(err => {
+      console.error(`Error starting ${source} capture:`, err);
+      if (!isMounted) return;
+      setError(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? `${SOURCE_LABELS[source]} access was denied or cancelled.`
+        : `Couldn't start the ${SOURCE_LABELS[source].toLowerCase()}.`);
+      setSource(null);
+    });
+    return () => {
+      isMounted = false;
+      capture?.stop();
+      if (captureRef.current === capture) captureRef.current = null;
+      setStream(null);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    captureRef.current?.setFramesPerSecond(framesPerSecond);
+  }, [framesPerSecond]);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <div className="w-full max-w-2xl mb-4 space-y-2">
+      <div className="flex flex-wrap justify-center items-center gap-3 text-sm text-gray-300">
+        <VideoIcon className="w-5 h-5 text-gray-400"/>
+        <div className="flex bg-gray-800 rounded-lg p-0.5">
+          {([null, 'camera', 'screen'] as (FrameSource | null)[]).map(option => (
+            <button key={option ?? 'off'} onClick={() => setSource(option)}
+              className={`px-3 py-1 text-xs rounded-md ${source === option ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+              {option ? SOURCE_LABELS[option] : 'Off'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span>Frames</span>
+          <select value={framesPerSecond} onChange={(e) => setFramesPerSecond(Number(e.target.value))}
+            className="bg-gray-700 rounded-lg py-1 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500">
+            {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate < 1 ? `1 every ${1 / rate}s` : `${rate} per second`}</option>)}
+          </select>
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {stream && (
+        <div className="relative mx-auto max-w-sm">
+          <video ref={previewRef} autoPlay muted playsInline className="w-full rounded-lg bg-black" />
+          <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded-full bg-red-500 text-white">
+            Sharing {source && SOURCE_LABELS[source].toLowerCase()}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Link, Parent, PhrasingContent, Root } from 'mdast';
+import { Source } from '../types';
+import { CheckIcon, CopyIcon } from './Icons';
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+// m:ss, mm:ss or h:mm:ss.
+const TIMESTAMP_PATTERN = /\b(?:(\d{1,2}):)?(\d{1,2}):([0-5]\d)\b/g;
+const TIMESTAMP_URL_PREFIX = '#t=';
+
+// Replaces matches of `pattern` in plain text with the links `toLink` returns
+// (or leaves them alone when it returns null). Code, inline code and existing
+// links are left untouched.
+const remarkLinkify = (pattern: RegExp, toLink: (match: RegExpMatchArray) => Link | null) => () => (tree: Root) => {
+  const visit = (node: Parent) => {
+    node.children = node.children.flatMap((child): typeof node.children => {
+      if (child.type === 'link' || child.type === 'linkReference') return [child];
+      if ('children' in child) {
+        visit(child);
+        return [child];
+      }
+      if (child.type !== 'text') return [child];
+
+      const parts: PhrasingContent[] = [];
+      let lastIndex = 0;
+      for (const match of child.value.matchAll(pattern)) {
+        const link = toLink(match);
+        if (!link) continue;
+        if (match.index > lastIndex) parts.push({ type: 'text', value: child.value.slice(lastIndex, match.index) });
+        parts.push(link);
+        lastIndex = match.index + match[0].length;
+      }
+      if (parts.length === 0) return [child];
+      if (lastIndex < child.value.length) parts.push({ type: 'text', value: child.value.slice(lastIndex) });
+      return parts as typeof node.children;
+    });
+  };
+  visit(tree);
+};
+
+// Turns search citations like "[1]" into links to the matching source.
+const remarkCitations = (sources: Source[]) => remarkLinkify(CITATION_PATTERN, match => {
+  const source = sources[Number(match[1]) - 1];
+  return source ? { type: 'link', url: source.uri, title: source.title, children: [{ type: 'text', value: match[0] }] } : null;
+});
+
+// Turns timestamps like "1:05" into links that seek the media being discussed.
+const remarkTimestamps = remarkLinkify(TIMESTAMP_PATTERN, match => {
+  const seconds = Number(match[1] ?? 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+  return { type: 'link', url: `${TIMESTAMP_URL_PREFIX}${seconds}`, title: `Jump to ${match[0]}`, children: [{ type: 'text', value: match[0] }] };
+});
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Error copying code:", error);
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1 rounded bg-gray-800/80 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <CheckIcon className="w-4 h-4 text-cyan-400" /> : <CopyIcon className="w-4 h-4" />}
+      </button>
+      <pre ref={preRef} {...props} className="overflow-x-auto rounded-lg bg-gray-900 p-3 text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const ExternalLink: Components['a'] = ({ node, ...props }) => (
+  <a {...props} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline" />
+);
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  a: ExternalLink,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} className="border-collapse text-sm" />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th {...props} className="border border-gray-600 px-2 py-1 bg-gray-800" />,
+  td: ({ node, ...props }) => <td {...props} className="border border-gray-600 px-2 py-1" />,
+};
+
+// Renders model output as GitHub-flavored markdown with math and highlighted
+// code. Raw HTML in the text is never rendered. With `onSeek`, timestamps
+// become buttons that call it with the time in seconds.
+export const MarkdownContent: React.FC<{ text: string; sources?: Source[]; onSeek?: (seconds: number) => void }> = ({ text, sources, onSeek }) => (
+  <ReactMarkdown
+    remarkPlugins={[
+      remarkGfm,
+      remarkMath,
+      ...(sources?.length ? [remarkCitations(sources)] : []),
+      ...(onSeek ? [remarkTimestamps] : []),
+    ]}
+    rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+    skipHtml
+    components={onSeek ? {
+      ...components,
+      a: ({ node, ...props }) => props.href?.startsWith(TIMESTAMP_URL_PREFIX)
+        ? <button type="button" onClick={() => onSeek(Number(props.href!.slice(TIMESTAMP_URL_PREFIX.length)))}
+            title={props.title} className="text-cyan-400 hover:underline font-mono">{props.children}</button>
+        : <ExternalLink node={node} {...props} />,
+    } : components}
+  >
+    {text}
+  </ReactMarkdown>
+);
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileData } from '../types';
+import { CloseIcon } from './Icons';
+
+type Tool = 'brush' | 'eraser' | 'rectangle' | 'lasso';
+
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: 'brush', label: 'Brush' },
+  { tool: 'eraser', label: 'Eraser' },
+  { tool: 'rectangle', label: 'Rectangle' },
+  { tool: 'lasso', label: 'Lasso' },
+];
+
+// Selected regions are painted in this color on screen; the exported mask is
+// white where the image may change and black everywhere else.
+const SELECTION_COLOR = 'rgba(239, 68, 68, 1)';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the image."));
+    img.src = src;
+  });
+
+const exportMask = (selection: HTMLCanvasElement): FileData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = selection.width;
+  canvas.height = selection.height;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  ctx.drawImage(selection, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png', name: 'mask.png' };
+};
+
+// Whether anything is left selected, e.g. after erasing.
+const hasPaint = (canvas: HTMLCanvasElement) => {
+  const { data } = (canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Lets the user select the regions of an image to change, then describe the change.
+export const MaskEditor: React.FC<{
+  image: FileData;
+  onClose: () => void;
+  onApply: (prompt: string, mask: FileData) => void;
+}> = ({ image, onClose, onApply }) => {
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [prompt, setPrompt] = useState('');
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [hasSelection, setHasSelection] = useState(false);
+
+  const selectionRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const pointsRef = useRef<Point[]>([]);
+  const drawingRef = useRef(false);
+  const imageUrl = `data:${image.mimeType};base64,${image.base64}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(img => { if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(error => console.error("Error loading image for masking:", error));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const context = (canvas: HTMLCanvasElement | null) => canvas?.getContext('2d') as CanvasRenderingContext2D;
+
+  // Pointer positions are in screen pixels; the canvases use the image's own resolution.
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * e.currentTarget.width / rect.width,
+      y: (e.clientY - rect.top) * e.currentTarget.height / rect.height,
+    };
+  };
+
+  const scaledBrush = () => {
+    const canvas = selectionRef.current;
+    if (!canvas) return brushSize;
+    return brushSize * canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  const stroke = (from: Point, to: Point) => {
+    const ctx = context(selectionRef.current);
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = scaledBrush();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const drawPreview = (points: Point[]) => {
+    const canvas = previewRef.current;
+    const ctx = context(canvas);
+    if (!canvas) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (points.length < 2) return;
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    ctx.setLineDash([8, 6]);
+    if (tool === 'rectangle') {
+      const [start, end] = [points[0], points[points.length - 1]];
+      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.stroke();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toImagePoint(e);
+    pointsRef.current = [point];
+    if (tool === 'brush' || tool === 'eraser') {
+      stroke(point, point);
+      if (tool === 'brush') setHasSelection(true);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const point = toImagePoint(e);
+    const points = pointsRef.current;
+    if (tool === 'brush' || tool === 'eraser') {
+      stroke(points[points.length - 1], point);
+      pointsRef.current = [point];
+      return;
+    }
+    pointsRef.current = tool === 'rectangle' ? [points[0], point] : [...points, point];
+    drawPreview(pointsRef.current);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    const points = pointsRef.current;
+    pointsRef.current = [];
+    if (tool === 'eraser' && selectionRef.current) setHasSelection(hasPaint(selectionRef.current));
+    if (tool === 'brush' || tool === 'eraser' || points.length < 2) return;
+
+    drawPreview([]);
+    const ctx = context(selectionRef.current);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = SELECTION_COLOR;
+    if (tool === 'rectangle') {
+      const [start, end] = points;
+      ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+    } else {
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setHasSelection(true);
+  };
+
+  const handleClear = () => {
+    const canvas = selectionRef.current;
+    if (canvas) context(canvas).clearRect(0, 0, canvas.width, canvas.height);
+    setHasSelection(false);
+  };
+
+  const handleApply = () => {
+    if (!selectionRef.current || !prompt.trim() || !hasSelection) return;
+    onApply(prompt, exportMask(selectionRef.current));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[95vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-white">Edit a Region</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {TOOLS.map(({ tool: t, label }) => (
+              <button key={t} onClick={() => setTool(t)}
+                className={`px-3 py-1 text-sm rounded-full ${tool === t ? 'bg-cyan-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                {label}
+              </button>
+            ))}
+            {(tool === 'brush' || tool === 'eraser') && (
+              <label className="flex items-center gap-2 text-sm text-gray-300 ml-2">
+                Size
+                <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+              </label>
+            )}
+            <button onClick={handleClear} className="ml-auto px-3 py-1 text-sm rounded-full bg-gray-700 hover:bg-gray-600">
+              Clear
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">Mark the areas to change. Everything outside the selection is kept as it is.</p>
+          {size ? (
+            <div className="relative mx-auto w-fit select-none">
+              <img src={imageUrl} alt={image.name} className="block max-w-full max-h-[55vh]" draggable={false} />
+              <canvas ref={selectionRef} width={size.width} height={size.height} className="absolute inset-0 w-full h-full opacity-50" />
+              <canvas ref={previewRef} width={size.width} height={size.height}
+                className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">Loading image...</p>
+          )}
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Describe what should appear in the selected area..."
+            className="w-full bg-gray-700 rounded-lg p-2 focus:ring-cyan-500 focus:border-cyan-500 text-white"
+            rows={2}
+          />
+          <button
+            onClick={handleApply}
+            disabled={!prompt.trim() || !hasSelection}
+            className="w-full bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500"
+          >
+            Edit Selection
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
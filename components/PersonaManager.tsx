@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { AppMode, Persona } from '../types';
+import { newPersona, PERSONA_VOICES, personasToJson } from '../services/personaStore';
+import { CloseIcon, DownloadIcon, PlusIcon, TrashIcon } from './Icons';
+
+const MODE_LABELS: Record<AppMode, string> = {
+  [AppMode.LITE]: 'Lite',
+  [AppMode.FLASH]: 'Flash',
+  [AppMode.PRO]: 'Pro (Thinking)',
+  [AppMode.SEARCH]: 'Search',
+};
+
+const inputClass = "w-full bg-gray-700 rounded-lg p-2 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500";
+
+// Creates, edits, shares and deletes personas.
+export const PersonaManager: React.FC<{
+  personas: Persona[];
+  onSave: (persona: Persona) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Resolves with the number of personas imported.
+  onImport: (json: string) => Promise<number>;
+  onClose: () => void;
+}> = ({ personas, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<Persona | null>(personas[0] ?? null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isSaved = !!draft && personas.some(p => p.id === draft.id);
+  const update = (fields: Partial<Persona>) => setDraft(prev => prev && { ...prev, ...fields });
+
+  const handleSave = async () => {
+    if (!draft?.name.trim()) return;
+    await onSave({ ...draft, name: draft.name.trim() });
+    setNotice(`Saved "${draft.name.trim()}".`);
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    if (isSaved) await onDelete(draft.id);
+    setDraft(personas.find(p => p.id !== draft.id) ?? null);
+    setNotice(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([personasToJson(personas)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'personas.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = await onImport(await file.text());
+      setNotice(`Imported ${count} persona${count === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setNotice(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-white">Personas</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="sm:w-56 shrink-0 space-y-2">
+            <button onClick={() => { setDraft(newPersona()); setNotice(null); }}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg bg-cyan-600 hover:bg-cyan-700 text-white">
+              <PlusIcon className="w-4 h-4"/> New persona
+            </button>
+            <ul className="space-y-1">
+              {personas.map(persona => (
+                <li key={persona.id}>
+                  <button onClick={() => { setDraft(persona); setNotice(null); }}
+                    className={`w-full text-left px-3 py-2 text-sm rounded-lg truncate ${draft?.id === persona.id ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}>
+                    {persona.name}
+                  </button>
+                </li>
+              ))}
+              {personas.length === 0 && <li className="px-3 text-sm text-gray-500">No personas yet.</li>}
+            </ul>
+            <div className="flex gap-2 pt-2 border-t border-gray-700">
+              <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+              <button onClick={() => importInputRef.current?.click()} className="flex-1 px-3 py-1.5 text-xs rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200">
+                Import
+              </button>
+              <button onClick={handleExport} disabled={personas.length === 0}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40">
+                <DownloadIcon className="w-3 h-3"/> Export
+              </button>
+            </div>
+          </div>
+          {draft ? (
+            <div className="flex-1 space-y-3">
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Name" className={inputClass} />
+              <textarea value={draft.systemPrompt} onChange={(e) => update({ systemPrompt: e.target.value })} rows={6}
+                placeholder="System prompt, e.g. You are a patient tutor who answers with short examples."
+                className={inputClass} />
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-300 space-y-1">
+                  <span>Default mode</span>
+                  <select value={draft.mode} onChange={(e) => update({ mode: e.target.value as AppMode })} className={inputClass}>
+                    {Object.values(AppMode).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-300 space-y-1">
+                  <span>Voice</span>
+                  <select value={draft.voice} onChange={(e) => update({ voice: e.target.value })} className={inputClass}>
+                    {PERSONA_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                  </select>
+                </label>
+              </div>
+              <label className="block text-sm text-gray-300">
+                Temperature: {draft.temperature.toFixed(1)}
+                <input type="range" min={0} max={2} step={0.1} value={draft.temperature}
+                  onChange={(e) => update({ temperature: Number(e.target.value) })} className="w-full" />
+              </label>
+              {notice && <p className="text-sm text-gray-400">{notice}</p>}
+              <div className="flex gap-2">
+                <button onClick={handleSave} disabled={!draft.name.trim()}
+                  className="flex-1 bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-500">
+                  Save
+                </button>
+                <button onClick={handleDelete} className="px-3 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700" title={isSaved ? 'Delete persona' : 'Discard'}>
+                  <TrashIcon className="w-5 h-5"/>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1">
+              {notice && <p className="text-sm text-gray-400 mb-2">{notice}</p>}
+              <p className="text-sm text-gray-400">Create a persona to give conversations a standing system prompt, model, voice and temperature.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { ConversationSummary, UsageRecord } from '../types';
+import {
+  clearUsage, DEFAULT_PRICES, dayOf, formatCost, getDailyBudget, getPrices, groupUsage, listUsage,
+  ModelPrice, PriceTable, savePrices, setDailyBudget, totalUsage, UsageTotals, usageToCsv,
+} from '../services/usage';
+import { CloseIcon, DownloadIcon } from './Icons';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'input', label: 'Input / 1M' },
+  { key: 'output', label: 'Output / 1M' },
+  { key: 'perUnit', label: 'Per unit' },
+];
+
+const inputClass = "w-full bg-gray-700 rounded-lg p-1.5 text-sm text-white focus:ring-cyan-500 focus:border-cyan-500";
+
+const formatTokens = (totals: UsageTotals) =>
+  (totals.inputTokens + totals.outputTokens + totals.thinkingTokens).toLocaleString();
+
+const formatLatency = (totals: UsageTotals) =>
+  totals.calls ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '–';
+
+const TotalsTable: React.FC<{ title: string; rows: { key: string; label: string; totals: UsageTotals }[] }> = ({ title, rows }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold text-gray-200">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing recorded yet.</p>
+    ) : (
+      <table className="w-full text-sm text-gray-300">
+        <thead className="text-xs text-gray-400 text-left">
+          <tr><th className="font-normal py-1"></th><th className="font-normal">Calls</th><th className="font-normal">Tokens</th><th className="font-normal">Avg latency</th><th className="font-normal text-right">Cost</th></tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label, totals }) => (
+            <tr key={key} className="border-t border-gray-700">
+              <td className="py-1 pr-2 truncate max-w-[14rem]">{label}</td>
+              <td>{totals.calls}</td>
+              <td>{formatTokens(totals)}</td>
+              <td>{formatLatency(totals)}</td>
+              <td className="text-right">{formatCost(totals.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+// Spending across every conversation, with the price table and budget that drive the estimates.
+export const UsageDashboard: React.FC<{
+  conversations: ConversationSummary[];
+  onClose: () => void;
+}> = ({ conversations, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState<PriceTable>(DEFAULT_PRICES);
+  const [budget, setBudget] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      setRecords(await listUsage());
+      setPrices(await getPrices());
+      const limit = await getDailyBudget();
+      setBudget(limit === undefined ? '' : String(limit));
+    })().catch(error => console.error("Error loading usage:", error));
+  }, []);
+
+  const titles = Object.fromEntries(conversations.map(c => [c.id, c.title]));
+  const today = dayOf(Date.now());
+  const byDay = groupUsage(records, r => dayOf(r.timestamp)).reverse()
+    .map(({ key, totals }) => ({ key, label: key === today ? `${key} (today)` : key, totals }));
+  const byConversation = groupUsage(records, r => r.conversationId ?? '')
+    .map(({ key, totals }) => ({ key, label: key ? titles[key] ?? 'Deleted conversation' : 'Background calls', totals }))
+    .sort((a, b) => b.totals.cost - a.totals.cost);
+  const todayTotals = totalUsage(records.filter(r => dayOf(r.timestamp) === today));
+  const allTotals = totalUsage(records);
+
+  const handleBudgetBlur = async () => {
+    const limit = budget.trim() === '' ? undefined : Number(budget);
+    if (limit !== undefined && !(limit >= 0)) {
+      setNotice('The budget must be a positive amount.');
+      return;
+    }
+    try {
+      await setDailyBudget(limit);
+      setNotice(limit === undefined ? 'Daily budget removed.' : `Daily budget set to ${formatCost(limit)}.`);
+    } catch (error) {
+      console.error("Error saving the budget:", error);
+      setNotice("Couldn't save the budget.");
+    }
+  };
+
+  const setPrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const price = { ...prices[model] };
+    if (value === '') delete price[key];
+    else price[key] = Number(value);
+    setPrices({ ...prices, [model]: price });
+  };
+
+  const handleSavePrices = async () => {
+    try {
+      await savePrices(prices);
+      setNotice('Prices saved. They apply to calls from now on.');
+    } catch (error) {
+      console.error("Error saving prices:", error);
+      setNotice("Couldn't save the prices.");
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([usageToCsv(records, titles)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `usage-${today}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole usage log?')) return;
+    try {
+      await clearUsage();
+      setRecords([]);
+    } catch (error) {
+      console.error("Error clearing usage:", error);
+      setNotice("Couldn't clear the usage log.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto space-y-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white">Usage</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <CloseIcon />
+          </button>
+        </div>
+        <p className="text-xs text-gray-400">Costs are estimates from the price table below, not billing data.</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {[{ label: 'Today', totals: todayTotals }, { label: 'All time', totals: allTotals }].map(({ label, totals }) => (
+            <div key={label} className="bg-gray-900 rounded-lg p-3">
+              <p className="text-xs text-gray-400">{label}</p>
+              <p className="text-2xl font-bold text-white">{formatCost(totals.cost)}</p>
+              <p className="text-xs text-gray-400">{totals.calls} calls · {formatTokens(totals)} tokens</p>
+            </div>
+          ))}
+        </div>
+
+        <TotalsTable title="By day" rows={byDay} />
+        <TotalsTable title="By conversation" rows={byConversation} />
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-200">Daily budget</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <span>US$</span>
+            <input type="number" min={0} step={0.5} value={budget} placeholder="No limit"
+              onChange={(e) => setBudget(e.target.value)} onBlur={handleBudgetBlur} className={`${inputClass} max-w-[8rem]`} />
+            <span className="text-xs text-gray-400">Video generation asks for confirmation when it would go over.</span>
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-200">Prices (US$)</h3>
+          <table className="w-full text-sm text-gray-300">
+            <thead className="text-xs text-gray-400 text-left">
+              <tr><th className="font-normal py-1">Model</th>{PRICE_FIELDS.map(f => <th key={f.key} className="font-normal">{f.label}</th>)}</tr>
+            </thead>
+            <tbody>
+              {Object.entries(prices).map(([model, price]) => (
+                <tr key={model}>
+                  <td className="py-1 pr-2 text-xs break-all">{model}</td>
+                  {PRICE_FIELDS.map(({ key }) => (
+                    <td key={key} className="pr-2">
+                      <input type="number" min={0} step="any" value={price[key] ?? ''} onChange={(e) => setPrice(model, key, e.target.value)} className={inputClass} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2">
+            <button onClick={handleSavePrices} className="px-3 py-1.5 text-xs rounded-full bg-cyan-600 hover:bg-cyan-700 text-white">Save prices</button>
+            <button onClick={() => setPrices(DEFAULT_PRICES)} className="px-3 py-1.5 text-xs rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200">Restore defaults</button>
+          </div>
+        </section>
+
+        {notice && <p className="text-sm text-gray-400">{notice}</p>}
+
+        <div className="flex gap-2 pt-2 border-t border-gray-700">
+          <button onClick={handleExport} disabled={records.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40">
+            <DownloadIcon className="w-3 h-3"/> Export CSV
+          </button>
+          <button onClick={handleClear} disabled={records.length === 0}
+            className="px-3 py-1.5 text-xs rounded-full bg-gray-700 hover:bg-red-600 text-gray-200 disabled:opacity-40">
+            Clear log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Attachment, FileData } from '../types';
+
+export const MAX_ATTACHMENTS = 10;
+
+const MB = 1024 * 1024;
+
+// Per-file size limits by kind. Files are held in memory as base64 until sent,
+// so these stay well below what the Files API itself accepts.
+const KINDS: { matches: (mimeType: string) => boolean, label: string, maxBytes: number }[] = [
+  { matches: type => type.startsWith('image/'), label: 'Images', maxBytes: 20 * MB },
+  { matches: type => type.startsWith('video/'), label: 'Videos', maxBytes: 200 * MB },
+  { matches: type => type.startsWith('audio/'), label: 'Audio files', maxBytes: 100 * MB },
+  { matches: type => type === 'application/pdf', label: 'PDFs', maxBytes: 50 * MB },
+  { matches: type => type.startsWith('text/'), label: 'Text files', maxBytes: 10 * MB },
+];
+
+export const ACCEPTED_TYPES = 'image/*,video/*,audio/*,application/pdf,text/*';
+
+export const isImage = (file: { mimeType: string }) => file.mimeType.startsWith('image/');
+export const isVideo = (file: { mimeType: string }) => file.mimeType.startsWith('video/');
+export const isAudio = (file: { mimeType: string }) => file.mimeType.startsWith('audio/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+};
+
+export const fileDataSize = (file: FileData) =>
+  Math.floor(file.base64.length * 3 / 4) - (file.base64.endsWith('==') ? 2 : file.base64.endsWith('=') ? 1 : 0);
+
+// Explains why `file` can't be attached next to `count` others, or returns null if it can.
+export const attachmentRejection = (file: File, count: number): string | null => {
+  if (count >= MAX_ATTACHMENTS) return `a message can carry at most ${MAX_ATTACHMENTS} attachments.`;
+  const kind = KINDS.find(k => k.matches(file.type));
+  if (!kind) return `${file.type || 'this file type'} is not supported.`;
+  if (file.size > kind.maxBytes) return `${kind.label} can be at most ${formatFileSize(kind.maxBytes)} (this one is ${formatFileSize(file.size)}).`;
+  return null;
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Inlines an object URL (or any fetchable URL) as a data URL.
+export const urlToDataUrl = async (url: string) =>
+  url.startsWith('data:') ? url : await blobToDataUrl(await (await fetch(url)).blob());
+
+export const toAttachment = (file: FileData): Attachment => ({
+  url: `data:${file.mimeType};base64,${file.base64}`,
+  mimeType: file.mimeType,
+  name: file.name,
+  size: fileDataSize(file),
+  ...(file.upload && { upload: file.upload }),
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createSilenceGate, meterLevel } from './audioCapture';
+
+const chunk = (n: number) => new Int16Array([n]);
+
+describe('createSilenceGate', () => {
+  it('sends nothing while it is quiet', () => {
+    const gate = createSilenceGate(0.1, 500);
+    expect(gate(chunk(1), 0.01, 0)).toEqual({ send: [], ended: false });
+    expect(gate(chunk(2), 0.02, 250)).toEqual({ send: [], ended: false });
+  });
+
+  it('opens on speech and sends the chunk before it too', () => {
+    const gate = createSilenceGate(0.1, 500);
+    gate(chunk(1), 0.01, 0);
+    expect(gate(chunk(2), 0.5, 250).send).toEqual([chunk(1), chunk(2)]);
+    expect(gate(chunk(3), 0.5, 500).send).toEqual([chunk(3)]);
+  });
+
+  it('stays open through short pauses', () => {
+    const gate = createSilenceGate(0.1, 500);
+    gate(chunk(1), 0.5, 0);
+    expect(gate(chunk(2), 0.01, 400)).toEqual({ send: [chunk(2)], ended: false });
+  });
+
+  it('reports the end of speech once, after the hangover', () => {
+    const gate = createSilenceGate(0.1, 500);
+    gate(chunk(1), 0.5, 0);
+    expect(gate(chunk(2), 0.01, 600)).toEqual({ send: [], ended: true });
+    expect(gate(chunk(3), 0.01, 850)).toEqual({ send: [], ended: false });
+  });
+});
+
+describe('meterLevel', () => {
+  it('maps -60..0 dB onto 0..1', () => {
+    expect(meterLevel(1)).toBe(1);
+    expect(meterLevel(0.001)).toBeCloseTo(0);
+    expect(meterLevel(0)).toBe(0);
+    expect(meterLevel(0.0316)).toBeCloseTo(0.5, 2);
+  });
+});
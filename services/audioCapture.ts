@@ -0,0 +1,199 @@
+// Microphone capture for Live sessions. An AudioWorklet running at the
+// device's native rate downsamples to 16 kHz, clips to 16-bit PCM and reports
+// levels, so nothing heavy runs on the main thread.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+
+// Samples per chunk sent to the model (~256ms).
+const CHUNK_SAMPLES = 4096;
+// Samples between level meter updates (~50ms).
+const LEVEL_SAMPLES = 800;
+
+// RMS level below which a chunk counts as silence, and how long speech keeps
+// the gate open after the level drops.
+const SILENCE_THRESHOLD = 0.01;
+const SILENCE_HANGOVER_MS = 800;
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Loaded from a blob URL so it needs no separate file in the build. Each output
+// sample averages the input samples it spans (a box filter against aliasing);
+// the fractional position carries across render quanta.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples, levelSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.position = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.chunkSquares = 0;
+    this.levelSamples = levelSamples;
+    this.levelSquares = 0;
+    this.levelCount = 0;
+    this.port.onmessage = ({ data }) => { if (data.type === 'flush') this.flush(); };
+  }
+
+  // Sends the part of the chunk collected so far, which may be empty.
+  flush() {
+    const pcm = this.chunk.slice(0, this.filled).buffer;
+    this.port.postMessage({ type: 'flushed', pcm }, [pcm]);
+    this.filled = 0;
+    this.chunkSquares = 0;
+  }
+
+  push(value) {
+    const clipped = Math.max(-1, Math.min(1, value));
+    this.chunk[this.filled++] = clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff;
+    this.chunkSquares += clipped * clipped;
+    this.levelSquares += clipped * clipped;
+    if (++this.levelCount === this.levelSamples) {
+      this.port.postMessage({ type: 'level', rms: Math.sqrt(this.levelSquares / this.levelCount) });
+      this.levelSquares = 0;
+      this.levelCount = 0;
+    }
+    if (this.filled === this.chunk.length) {
+      const pcm = this.chunk.slice().buffer;
+      this.port.postMessage({ type: 'chunk', pcm, rms: Math.sqrt(this.chunkSquares / this.filled) }, [pcm]);
+      this.filled = 0;
+      this.chunkSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i];
+      this.count++;
+      this.position++;
+      if (this.position >= this.ratio) {
+        const value = this.sum / this.count;
+        this.sum = 0;
+        this.count = 0;
+        while (this.position >= this.ratio) {
+          this.position -= this.ratio;
+          this.push(value);
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let processorUrl: string | null = null;
+
+const getProcessorUrl = () => {
+  processorUrl ??= URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  return processorUrl;
+};
+
+export interface CaptureOptions {
+  // Microphone to use; the system default when unset.
+  deviceId?: string;
+  // 16 kHz mono PCM, with the chunk's RMS level between 0 and 1.
+  onChunk: (pcm: Int16Array, rms: number) => void;
+  // Called about every 50ms with the RMS level.
+  onLevel: (rms: number) => void;
+}
+
+export interface AudioCapture {
+  // The microphone actually opened.
+  deviceId?: string;
+  // Resolves with the audio captured since the last chunk, so the end of a
+  // push-to-talk turn isn't lost. Chunks sent before it arrive first.
+  flush: () => Promise<Int16Array>;
+  stop: () => void;
+}
+
+// Rejects when microphone access is denied or the device is gone.
+export const startCapture = async ({ deviceId, onChunk, onLevel }: CaptureOptions): Promise<AudioCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      ...(deviceId && { deviceId: { exact: deviceId } }),
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    },
+  });
+  const context = new AudioContext();
+  // Flushes waiting for the worklet, answered in order.
+  const flushes: ((pcm: Int16Array) => void)[] = [];
+  const stop = () => {
+    stream.getTracks().forEach(track => track.stop());
+    if (context.state !== 'closed') context.close();
+    flushes.splice(0).forEach(resolve => resolve(new Int16Array(0)));
+  };
+  let node: AudioWorkletNode;
+  try {
+    await context.audioWorklet.addModule(getProcessorUrl());
+    node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfOutputs: 0,
+      processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES, levelSamples: LEVEL_SAMPLES },
+    });
+    node.port.onmessage = ({ data }) => {
+      if (data.type === 'chunk') onChunk(new Int16Array(data.pcm), data.rms);
+      else if (data.type === 'flushed') flushes.shift()?.(new Int16Array(data.pcm));
+      else onLevel(data.rms);
+    };
+    context.createMediaStreamSource(stream).connect(node);
+  } catch (error) {
+    stop();
+    throw error;
+  }
+  const flush = () => new Promise<Int16Array>(resolve => {
+    if (context.state === 'closed') return resolve(new Int16Array(0));
+    flushes.push(resolve);
+    node.port.postMessage({ type: 'flush' });
+  });
+  return { deviceId: stream.getAudioTracks()[0]?.getSettings().deviceId, flush, stop };
+};
+
+// Device labels are only filled in once microphone access has been granted.
+export const listAudioDevices = async () => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+};
+
+// Whether the browser can route an AudioContext to a chosen output device.
+export const canSelectOutput = () => 'setSinkId' in AudioContext.prototype;
+
+export const setOutputDevice = async (context: AudioContext, deviceId: string) => {
+  await (context as AudioContext & { setSinkId: (id: string) => Promise<void> }).setSinkId(deviceId);
+};
+
+// Maps an RMS level onto 0..1 over a 60 dB range, for meters.
+export const meterLevel = (rms: number) =>
+  Math.max(0, Math.min(1, (20 * Math.log10(Math.max(rms, 1e-6)) + 60) / 60));
+
+// Decides which chunks are worth sending. Speech opens the gate, which stays
+// open for a moment after the level drops; the chunk just before speech is sent
+// too, so word onsets aren't cut. `ended` marks the first silent chunk after speech.
+export const createSilenceGate = (threshold = SILENCE_THRESHOLD, hangoverMs = SILENCE_HANGOVER_MS) => {
+  let previous: Int16Array | null = null;
+  let lastSpeechAt = -Infinity;
+  let open = false;
+  return (chunk: Int16Array, rms: number, now = performance.now()): { send: Int16Array[]; ended: boolean } => {
+    if (rms >= threshold) lastSpeechAt = now;
+    if (now - lastSpeechAt <= hangoverMs) {
+      const send = !open && previous ? [previous, chunk] : [chunk];
+      open = true;
+      previous = null;
+      return { send, ended: false };
+    }
+    previous = chunk;
+    const ended = open;
+    open = false;
+    return { send: [], ended };
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ImageRequest } from '../types';
+import { CommandError, commandBeingTyped, completeCommand, parseCommand, toImageRequest } from './commands';
+
+const QUICK_IMAGE_OPTIONS: Omit<ImageRequest, 'prompt'> = { aspectRatio: '1:1', numberOfImages: 1, outputMimeType: 'image/jpeg', personGeneration: 'allow_adult' };
+
+describe('parseCommand', () => {
+  it('reads the name, leading options and text', () => {
+    expect(parseCommand('/image --ar 16:9 --n 2 a red fox')).toEqual({
+      name: 'image',
+      options: { ar: '16:9', n: '2' },
+      text: 'a red fox',
+    });
+  });
+
+  it('ignores case in the name and allows no text', () => {
+    expect(parseCommand('  /CLEAR ')).toEqual({ name: 'clear', options: {}, text: '' });
+  });
+
+  it('treats options after the text as text', () => {
+    expect(parseCommand('/search what does --help do')?.text).toBe('what does --help do');
+  });
+
+  it('leaves messages that only look like commands alone', () => {
+    expect(parseCommand('/etc/hosts is empty')).toBeNull();
+    expect(parseCommand('/unknown thing')).toBeNull();
+    expect(parseCommand('not /image')).toBeNull();
+  });
+});
+
+describe('completeCommand', () => {
+  it('suggests commands while the name is typed', () => {
+    expect(completeCommand('/e').map(command => command.name)).toEqual(['edit', 'export']);
+    expect(completeCommand('/edit ')).toEqual([]);
+  });
+
+  it('knows the command once its name is complete', () => {
+    expect(commandBeingTyped('/video a cat')?.name).toBe('video');
+    expect(commandBeingTyped('/vid')).toBeUndefined();
+  });
+});
+
+describe('toImageRequest', () => {
+  it('applies the options over the defaults', () => {
+    const request = toImageRequest(parseCommand('/image --ar 4:3 --seed 7 a fox')!, QUICK_IMAGE_OPTIONS);
+    expect(request).toMatchObject({ prompt: 'a fox', aspectRatio: '4:3', seed: 7, numberOfImages: QUICK_IMAGE_OPTIONS.numberOfImages });
+  });
+
+  it('explains options it cannot use', () => {
+    expect(() => toImageRequest(parseCommand('/image --ar 2:1 a fox')!, QUICK_IMAGE_OPTIONS)).toThrow(CommandError);
+    expect(() => toImageRequest(parseCommand('/image --size 2 a fox')!, QUICK_IMAGE_OPTIONS)).toThrow('/image has no --size option.');
+    expect(() => toImageRequest(parseCommand('/image --n 9')!, QUICK_IMAGE_OPTIONS)).toThrow(CommandError);
+  });
+});
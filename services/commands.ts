@@ -0,0 +1,120 @@
+import { AppMode, AspectRatio, ImageRequest, VideoAspectRatio, VideoQuality, VideoRequest, VideoResolution } from '../types';
+
+// Slash commands typed in the input bar, e.g. `/image --ar 16:9 a red fox`.
+// Options come first, as `--name value`; the rest of the line is the text.
+
+export type CommandName = 'image' | 'video' | 'edit' | 'mode' | 'search' | 'tts' | 'clear' | 'export';
+
+export interface CommandSpec {
+  name: CommandName;
+  usage: string;
+  description: string;
+  // Whether the command is usually followed by text or options, so picking it
+  // from a list should let the user finish typing rather than run it.
+  takesText: boolean;
+}
+
+export const COMMANDS: CommandSpec[] = [
+  { name: 'image', usage: '/image [--ar 1:1|16:9|9:16|4:3|3:4] [--n 1-4] [--seed N] <prompt>', description: 'Generate images', takesText: true },
+  { name: 'video', usage: '/video [--ar 16:9|9:16] [--quality fast|quality] [--res 720p|1080p] <prompt>', description: 'Generate a video, from the attached image if there is one', takesText: true },
+  { name: 'edit', usage: '/edit <instructions>', description: 'Edit the attached or selected images', takesText: true },
+  { name: 'mode', usage: '/mode lite|flash|pro|search', description: 'Switch the chat model', takesText: true },
+  { name: 'search', usage: '/search <query>', description: 'Answer with Google Search results', takesText: true },
+  { name: 'tts', usage: '/tts [text]', description: 'Read the text, or the last reply, aloud', takesText: false },
+  { name: 'clear', usage: '/clear', description: 'Start a new conversation', takesText: false },
+  { name: 'export', usage: '/export [md|html|json]', description: 'Download this conversation', takesText: false },
+];
+
+export const MODE_NAMES: Record<string, AppMode> = {
+  lite: AppMode.LITE,
+  flash: AppMode.FLASH,
+  pro: AppMode.PRO,
+  search: AppMode.SEARCH,
+};
+
+// A command the user can't run as typed; the message says why.
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export interface ParsedCommand {
+  name: CommandName;
+  options: Record<string, string>;
+  text: string;
+}
+
+// Only known command names count, so a message like "/etc/hosts is empty" is
+// sent as it is.
+export const parseCommand = (input: string): ParsedCommand | null => {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  const spec = match && COMMANDS.find(command => command.name === match[1].toLowerCase());
+  if (!spec) return null;
+  const options: Record<string, string> = {};
+  let rest = match[2] ?? '';
+  let option: RegExpMatchArray | null;
+  while ((option = rest.match(/^--(\w+)\s+(\S+)\s*/))) {
+    options[option[1]] = option[2];
+    rest = rest.slice(option[0].length);
+  }
+  return { name: spec.name, options, text: rest.trim() };
+};
+
+// Commands whose name starts with what has been typed so far, while the name is
+// still being typed.
+export const completeCommand = (input: string): CommandSpec[] => {
+  const match = input.match(/^\/(\w*)$/);
+  if (!match) return [];
+  return COMMANDS.filter(command => command.name.startsWith(match[1].toLowerCase()));
+};
+
+// The command being written, once its name is complete.
+export const commandBeingTyped = (input: string): CommandSpec | undefined => {
+  const match = input.match(/^\/(\w+)\s/);
+  return match ? COMMANDS.find(command => command.name === match[1].toLowerCase()) : undefined;
+};
+
+const choice = <T extends string>(command: ParsedCommand, key: string, allowed: readonly T[], fallback: T): T => {
+  const value = command.options[key];
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new CommandError(`--${key} must be one of ${allowed.join(', ')}.`);
+  return value as T;
+};
+
+const integer = (command: ParsedCommand, key: string, min: number, max: number): number | undefined => {
+  const value = command.options[key];
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) throw new CommandError(`--${key} must be a whole number from ${min} to ${max}.`);
+  return n;
+};
+
+const checkOptions = (command: ParsedCommand, known: string[]) => {
+  const unknown = Object.keys(command.options).find(key => !known.includes(key));
+  if (unknown) throw new CommandError(`/${command.name} has no --${unknown} option.`);
+};
+
+export const toImageRequest = (command: ParsedCommand, defaults: Omit<ImageRequest, 'prompt'>): ImageRequest => {
+  checkOptions(command, ['ar', 'n', 'seed']);
+  if (!command.text) throw new CommandError('Describe the image after /image.');
+  const seed = integer(command, 'seed', 0, 2 ** 31 - 1);
+  return {
+    ...defaults,
+    prompt: command.text,
+    aspectRatio: choice<AspectRatio>(command, 'ar', ['1:1', '16:9', '9:16', '4:3', '3:4'], defaults.aspectRatio),
+    numberOfImages: integer(command, 'n', 1, 4) ?? defaults.numberOfImages,
+    ...(seed !== undefined && { seed }),
+  };
+};
+
+export const toVideoOptions = (command: ParsedCommand, defaults: Omit<VideoRequest, 'prompt' | 'image'>): Omit<VideoRequest, 'prompt' | 'image'> => {
+  checkOptions(command, ['ar', 'quality', 'res']);
+  return {
+    ...defaults,
+    aspectRatio: choice<VideoAspectRatio>(command, 'ar', ['16:9', '9:16'], defaults.aspectRatio),
+    quality: choice<VideoQuality>(command, 'quality', ['fast', 'quality'], defaults.quality),
+    resolution: choice<VideoResolution>(command, 'res', ['720p', '1080p'], defaults.resolution),
+  };
+};
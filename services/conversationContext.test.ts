@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, ChatRole, ErrorKind } from '../types';
+import { estimateTokens, fitHistory, messageToContent } from './conversationContext';
+
+const message = (role: ChatRole, text: string, fields: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id: crypto.randomUUID(), role, text, ...fields });
+
+describe('messageToContent', () => {
+  it('skips system notices, placeholders and failed replies', () => {
+    expect(messageToContent(message(ChatRole.SYSTEM, 'notice'))).toBeNull();
+    expect(messageToContent(message(ChatRole.MODEL, '', { isLoading: true }))).toBeNull();
+    expect(messageToContent(message(ChatRole.MODEL, 'oops', { error: ErrorKind.NETWORK }))).toBeNull();
+  });
+
+  it('maps roles and keeps the text', () => {
+    expect(messageToContent(message(ChatRole.USER, 'hi'))).toEqual({ role: 'user', parts: [{ text: 'hi' }] });
+    expect(messageToContent(message(ChatRole.MODEL, 'hello'))).toEqual({ role: 'model', parts: [{ text: 'hello' }] });
+  });
+
+  it('leaves out display-only attachments', () => {
+    const frame = { url: 'data:image/png;base64,AAAA', mimeType: 'image/png', name: 'frame.png', displayOnly: true };
+    expect(messageToContent(message(ChatRole.USER, 'animate', { attachments: [frame] })))
+      .toEqual({ role: 'user', parts: [{ text: 'animate' }] });
+  });
+});
+
+describe('fitHistory', () => {
+  const messages = [
+    message(ChatRole.MODEL, 'Welcome!'),
+    message(ChatRole.USER, 'a'.repeat(400)),
+    message(ChatRole.MODEL, 'b'.repeat(400)),
+    message(ChatRole.USER, 'c'.repeat(400)),
+  ];
+
+  it('keeps everything that fits, starting with a user turn', () => {
+    const { contents, dropped } = fitHistory(messages, 1_000_000);
+    expect(contents.map(c => c.role)).toEqual(['user', 'model', 'user']);
+    expect(dropped.map(m => m.text)).toEqual(['Welcome!']);
+  });
+
+  it('drops the oldest turns once over budget', () => {
+    const budget = estimateTokens({ parts: [{ text: 'b'.repeat(400) }] }) * 2;
+    const { contents, dropped } = fitHistory(messages, budget);
+    // The model turn that fits is dropped too, since history must start with the user.
+    expect(contents).toHaveLength(1);
+    expect(contents[0].parts?.[0].text).toBe('c'.repeat(400));
+    expect(dropped).toHaveLength(3);
+  });
+
+  it('returns nothing when even the last turn is too large', () => {
+    expect(fitHistory(messages, 10).contents).toEqual([]);
+  });
+
+  it('keeps only the newest inline media that fits the byte budget', () => {
+    const image = (name: string) => ({ url: `data:image/png;base64,${'A'.repeat(4000)}`, mimeType: 'image/png', name });
+    const withImages = [
+      message(ChatRole.USER, 'first', { attachments: [image('old.png')] }),
+      message(ChatRole.MODEL, 'ok'),
+      message(ChatRole.USER, 'second', { attachments: [image('new.png')] }),
+    ];
+    const { contents } = fitHistory(withImages, 1_000_000, 4000);
+    expect(contents[2].parts?.some(part => part.inlineData)).toBe(true);
+    expect(contents[0].parts?.some(part => part.inlineData)).toBe(false);
+    expect(contents[0].parts?.map(part => part.text)).toContain('first');
+  });
+});
@@ -0,0 +1,132 @@
+import { Content, Part } from "@google/genai";
+import { AppMode, ChatMessage, ChatRole } from '../types';
+
+// Input context windows (in tokens) for the models behind each mode.
+const CONTEXT_WINDOWS: Record<AppMode, number> = {
+  [AppMode.LITE]: 1_048_576,
+  [AppMode.FLASH]: 1_048_576,
+  [AppMode.PRO]: 1_048_576,
+  [AppMode.SEARCH]: 1_048_576,
+};
+
+// Tokens kept free for the model's answer (and thinking, in Pro mode).
+const OUTPUT_RESERVE = 65_536;
+const THINKING_RESERVE = 32_768;
+
+// Rough estimates: ~4 characters per text token, a flat cost per inline image
+// and a larger one for other media (video, audio, documents).
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const MEDIA_TOKENS = 10_000;
+
+// Live sessions have a much smaller context window; the text chat they start
+// with is trimmed to this many tokens.
+const LIVE_CONTEXT_BUDGET = 16_000;
+
+// Dropped turns are summarized with the Lite model; cap what we send it.
+const SUMMARY_INPUT_CHAR_LIMIT = 200_000;
+
+export const estimateTokens = (content: Content) =>
+  (content.parts ?? []).reduce((total, part) => {
+    if (part.text) return total + Math.ceil(part.text.length / CHARS_PER_TOKEN);
+    if (part.inlineData?.mimeType?.startsWith('image/')) return total + IMAGE_TOKENS;
+    if (part.inlineData || part.fileData) return total + MEDIA_TOKENS;
+    return total;
+  }, 0);
+
+// Bytes of base64-encoded media sent inline with a turn.
+export const inlineBytes = (content: Content) =>
+  (content.parts ?? []).reduce((total, part) => total + (part.inlineData?.data?.length ?? 0) * 3 / 4, 0);
+
+const INLINE_OMITTED_NOTE = '(An attachment from this turn is no longer sent.)';
+
+// Swaps inline media for a note, keeping the rest of the turn.
+const withoutInline = (content: Content): Content => {
+  const parts = (content.parts ?? []).filter(part => !part.inlineData);
+  return { ...content, parts: [...parts, { text: INLINE_OMITTED_NOTE }] };
+};
+
+export const getHistoryBudget = (mode: AppMode) =>
+  CONTEXT_WINDOWS[mode] - OUTPUT_RESERVE - (mode === AppMode.PRO ? THINKING_RESERVE : 0);
+
+const dataUrlToPart = (dataUrl: string): Part | null => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  return match ? { inlineData: { mimeType: match[1], data: match[2] } } : null;
+};
+
+// Converts a chat message into a model turn. System notices, placeholders and
+// failed responses carry nothing the model should see, so they are skipped.
+export const messageToContent = (msg: ChatMessage): Content | null => {
+  if (msg.role === ChatRole.SYSTEM || msg.isLoading || msg.error) return null;
+
+  const parts: Part[] = [];
+  // Of the model's own attachments, only images are sent back. User attachments
+  // are resent from their upload, or inline while they are still data URLs;
+  // media restored from storage without an upload is left out.
+  for (const attachment of msg.attachments ?? []) {
+    if (attachment.displayOnly) continue;
+    if (msg.role !== ChatRole.USER && !attachment.mimeType.startsWith('image/')) continue;
+    const { upload } = attachment;
+    const part = upload && (!upload.expiresAt || upload.expiresAt > Date.now())
+      ? { fileData: { fileUri: upload.uri, mimeType: upload.mimeType } }
+      : dataUrlToPart(attachment.url);
+    if (part) parts.push(part);
+  }
+  if (msg.text.trim()) parts.push({ text: msg.text });
+  if (parts.length === 0) return null;
+
+  return { role: msg.role === ChatRole.USER ? 'user' : 'model', parts };
+};
+
+export interface HistoryWindow {
+  contents: Content[];
+  // Messages that no longer fit in the budget, oldest first.
+  dropped: ChatMessage[];
+}
+
+// Keeps the most recent turns that fit within `budget` tokens. The result
+// always starts with a user turn, as the API expects. Inline media counts
+// against `inlineBudget` bytes, newest first; older turns over it keep only
+// their text, since requests have a size limit.
+export const fitHistory = (messages: ChatMessage[], budget: number, inlineBudget = Infinity): HistoryWindow => {
+  const converted = messages
+    .map(msg => ({ msg, content: messageToContent(msg) }))
+    .filter((entry): entry is { msg: ChatMessage; content: Content } => entry.content !== null);
+
+  let used = 0;
+  let inlineUsed = 0;
+  let start = converted.length;
+  while (start > 0) {
+    const entry = converted[start - 1];
+    const bytes = inlineBytes(entry.content);
+    if (bytes > 0 && inlineUsed + bytes > inlineBudget) {
+      entry.content = withoutInline(entry.content);
+    } else {
+      inlineUsed += bytes;
+    }
+    const cost = estimateTokens(entry.content);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  while (start < converted.length && converted[start].content.role !== 'user') {
+    start++;
+  }
+
+  return {
+    contents: converted.slice(start).map(entry => entry.content),
+    dropped: converted.slice(0, start).map(entry => entry.msg),
+  };
+};
+
+// The text chat as context for a Live session: recent turns, text only.
+export const liveContext = (messages: ChatMessage[]) =>
+  fitHistory(messages.map(msg => ({ ...msg, attachments: undefined })), LIVE_CONTEXT_BUDGET).contents;
+
+export const transcriptForSummary = (messages: ChatMessage[]) => {
+  const transcript = messages
+    .filter(msg => msg.role !== ChatRole.SYSTEM && !msg.error && msg.text.trim())
+    .map(msg => `${msg.role === ChatRole.USER ? 'User' : 'Assistant'}: ${msg.text}`)
+    .join('\n\n');
+  return transcript.slice(-SUMMARY_INPUT_CHAR_LIMIT);
+};
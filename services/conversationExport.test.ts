@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, ChatRole } from '../types';
+import { conversationToHtml, parseConversationJson } from './conversationExport';
+
+const IMAGE_URL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const exported = (fields: Record<string, unknown> = {}) => JSON.stringify({
+  kind: 'meta-world-ai/conversation',
+  version: 1,
+  title: 'Trip',
+  mode: AppMode.PRO,
+  messages: [{ id: 'm1', role: ChatRole.USER, text: 'hello' }],
+  ...fields,
+});
+
+describe('parseConversationJson', () => {
+  it('reads an exported conversation', () => {
+    expect(parseConversationJson(exported({ settings: { temperature: 0.5, stopSequences: ['END'] } }))).toEqual({
+      title: 'Trip',
+      mode: AppMode.PRO,
+      settings: { temperature: 0.5, stopSequences: ['END'] },
+      messages: [{ id: 'm1', role: ChatRole.USER, text: 'hello' }],
+    });
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(() => parseConversationJson('{')).toThrow('not valid JSON');
+    expect(() => parseConversationJson(JSON.stringify({ messages: [] }))).toThrow('not an exported conversation');
+    expect(() => parseConversationJson(exported({ version: 2 }))).toThrow('newer version');
+    expect(() => parseConversationJson(exported({ messages: [{ role: 'robot', text: 'hi' }] }))).toThrow('Message 1 is not a valid chat message.');
+  });
+
+  it('rejects settings requests would fail with', () => {
+    expect(() => parseConversationJson(exported({ settings: { stopSequences: 'END' } }))).toThrow('stopSequences');
+    expect(() => parseConversationJson(exported({ settings: { temperature: 'hot' } }))).toThrow('temperature');
+    expect(() => parseConversationJson(exported({ settings: { safety: { hate: 'all' } } }))).toThrow('safety');
+  });
+
+  it('keeps only well-formed data URLs, web sources and complete usage', () => {
+    const { messages } = parseConversationJson(exported({
+      messages: [{
+        role: ChatRole.MODEL,
+        text: 'hi',
+        attachments: [
+          { url: IMAGE_URL, mimeType: 'image/png', name: 'ok.png' },
+          { url: 'data:image/png;base64,AA" onerror="alert(1)', mimeType: 'image/png', name: 'bad.png' },
+          { url: 'https://example.com/a.png', mimeType: 'image/png', name: 'remote.png' },
+        ],
+        sources: [{ uri: 'https://example.com', title: 'Example' }, { uri: 'javascript:alert(1)', title: 'x' }, 'junk'],
+        usage: { kind: 'text', model: 'gemini-2.5-flash', cost: 'free', latencyMs: 10 },
+      }],
+    }));
+    expect(messages[0].attachments?.map(a => a.url)).toEqual([IMAGE_URL, '', '']);
+    expect(messages[0].sources).toEqual([{ uri: 'https://example.com', title: 'Example' }]);
+    expect(messages[0].usage).toBeUndefined();
+    expect(messages[0].id).toBeTruthy();
+  });
+
+  it('drops a malformed config and error rather than rendering them', () => {
+    const { messages } = parseConversationJson(exported({
+      messages: [
+        { role: ChatRole.MODEL, text: 'hi', config: { model: 'gemini-2.5-flash', stopSequences: 'END' }, error: 'bogus' },
+        { role: ChatRole.MODEL, text: 'ok', config: { model: 'gemini-2.5-flash', stopSequences: ['END'] }, error: 'quota' },
+      ],
+    }));
+    expect(messages[0]).not.toHaveProperty('config');
+    expect(messages[0]).not.toHaveProperty('error');
+    expect(messages[1]).toMatchObject({ config: { model: 'gemini-2.5-flash', stopSequences: ['END'] }, error: 'quota' });
+  });
+
+  it('keeps only the fields a chat message has', () => {
+    const { messages } = parseConversationJson(exported({
+      messages: [{
+        id: 'm1',
+        role: ChatRole.MODEL,
+        text: 'hi',
+        videoJob: { id: 'j1', status: 'failed', prompt: 'a cat', startedAt: 'yesterday' },
+        selectedVideo: '1',
+        editOf: [{ messageId: 'm0', index: 0 }, { messageId: 'm0' }],
+        onClick: 'alert(1)',
+      }],
+    }));
+    expect(messages[0]).toEqual({ id: 'm1', role: ChatRole.MODEL, text: 'hi', editOf: [{ messageId: 'm0', index: 0 }] });
+  });
+
+  it('rejects attachments without a name or type', () => {
+    expect(() => parseConversationJson(exported({ messages: [{ role: ChatRole.USER, text: '', attachments: [{ url: IMAGE_URL }] }] })))
+      .toThrow('Message 1 has an attachment that is not valid.');
+  });
+});
+
+describe('conversationToHtml', () => {
+  it('embeds data URLs and leaves anything else out', async () => {
+    const html = await conversationToHtml({
+      title: 'Trip',
+      mode: AppMode.FLASH,
+      messages: [{
+        id: 'm1',
+        role: ChatRole.USER,
+        text: 'look',
+        attachments: [
+          { url: IMAGE_URL, mimeType: 'image/png', name: 'ok.png' },
+          { url: 'data:image/png;base64,AA" onerror="alert(1)', mimeType: 'image/png', name: 'bad.png' },
+        ],
+      }],
+    });
+    expect(html).toContain(`<img src="${IMAGE_URL}" alt="ok.png">`);
+    expect(html).toContain('bad.png (unavailable)');
+    expect(html).not.toContain('onerror');
+  });
+});
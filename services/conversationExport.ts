@@ -0,0 +1,313 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { AppMode, Attachment, ChatMessage, ChatRole, Conversation, ErrorKind, GenerationSettings, ImageRef, LiveTurn, ResponseConfig, SafetyCategory, SafetyThreshold, Source, Usage, UsageKind, VideoJobState, VideoJobStatus } from '../types';
+import { MarkdownContent } from '../components/MarkdownContent';
+import { isAudio, isImage, urlToDataUrl } from './attachments';
+import { describeToolCall } from './liveTools';
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = { md: 'Markdown', html: 'HTML', json: 'JSON' };
+
+const MIME_TYPES: Record<ExportFormat, string> = { md: 'text/markdown', html: 'text/html', json: 'application/json' };
+
+// Identifies the JSON format, so files from other apps are rejected on import.
+const JSON_KIND = 'meta-world-ai/conversation';
+const JSON_VERSION = 1;
+
+// What an export holds: everything needed to continue the conversation.
+export type ExportedConversation = Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'>;
+
+const ROLE_LABELS: Record<ChatRole, string> = {
+  [ChatRole.USER]: 'You',
+  [ChatRole.MODEL]: 'Gemini',
+  [ChatRole.SYSTEM]: 'System',
+};
+
+const CITATION_PATTERN = /\[(\d+)\](?!\()/g;
+
+const exportable = (messages: ChatMessage[]) => messages.filter(m => !m.isLoading);
+
+// Turns `[n]` citations into footnote references; sources the text never
+// cites are referenced at its end, since unreferenced footnotes aren't shown.
+const withFootnotes = (text: string, sources: Source[], messageNumber: number) => {
+  const label = (index: number) => `^${messageNumber}-${index + 1}`;
+  const cited = new Set<number>();
+  const body = text.replace(CITATION_PATTERN, (match, n) => {
+    const index = Number(n) - 1;
+    if (!sources[index]) return match;
+    cited.add(index);
+    return `[${label(index)}]`;
+  });
+  const uncited = sources.map((_, i) => i).filter(i => !cited.has(i)).map(i => `[${label(i)}]`).join('');
+  return [
+    uncited ? `${body} ${uncited}` : body,
+    '',
+    ...sources.map((s, i) => `[${label(i)}]: [${s.title || s.uri}](${s.uri})`),
+  ].join('\n');
+};
+
+// Attachments are listed by name; their contents only go into HTML and JSON exports.
+const messageToMarkdown = (msg: ChatMessage, index: number) => {
+  const text = msg.sources?.length ? withFootnotes(msg.text, msg.sources, index + 1) : msg.text;
+  const lines = [`**${ROLE_LABELS[msg.role]}:** ${text}`];
+  if (msg.attachments?.length) {
+    lines.push('', `_Attachments: ${msg.attachments.map(a => a.name).join(', ')}_`);
+  }
+  return lines.join('\n');
+};
+
+export const conversationToMarkdown = ({ title, messages }: ExportedConversation) =>
+  [`# ${title}`, ...exportable(messages).map(messageToMarkdown)].join('\n\n') + '\n';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A base64 data URL: the only kind of URL embedded in an HTML export or
+// accepted from an imported one.
+const DATA_URL_PATTERN = /^data:[\w.+-]+\/[\w.+-]+(;[\w.+-]+=[\w.+-]+)*;base64,[A-Za-z0-9+/]*={0,2}$/;
+
+// Images and audio are embedded; videos are too large to inline and are only named.
+const attachmentToHtml = async (attachment: Attachment) => {
+  const name = escapeHtml(attachment.name);
+  const unavailable = `<p class="attachment">${name} (unavailable)</p>`;
+  if (!attachment.url) return unavailable;
+  if (!isImage(attachment) && !isAudio(attachment)) return `<p class="attachment">📎 ${name}</p>`;
+  const src = await urlToDataUrl(attachment.url);
+  if (!DATA_URL_PATTERN.test(src)) return unavailable;
+  const url = escapeHtml(src);
+  return isImage(attachment) ? `<img src="${url}" alt="${name}">` : `<audio controls src="${url}" title="${name}"></audio>`;
+};
+
+const messageToHtml = async (msg: ChatMessage) => {
+  const text = msg.role === ChatRole.USER
+    ? `<p class="plain">${escapeHtml(msg.text)}</p>`
+    : renderToStaticMarkup(createElement(MarkdownContent, { text: msg.text, sources: msg.sources }));
+  const attachments = await Promise.all((msg.attachments ?? []).map(attachmentToHtml));
+  const sources = msg.sources?.length
+    ? `<ol class="sources">${msg.sources.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(s.title || s.uri)}</a></li>`).join('')}</ol>`
+    : '';
+  return `<section class="message ${msg.role}"><h2>${ROLE_LABELS[msg.role]}</h2>${attachments.join('')}${text}${sources}</section>`;
+};
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+.message { padding: 0.75rem 1rem; margin: 1rem 0; border-radius: 0.75rem; background: #f3f4f6; }
+.message.user { background: #cffafe; }
+.message.system { background: none; color: #6b7280; font-style: italic; }
+h2 { font-size: 0.8rem; margin: 0 0 0.25rem; color: #6b7280; text-transform: uppercase; }
+.plain { white-space: pre-wrap; }
+img { max-width: 100%; border-radius: 0.5rem; }
+audio { width: 100%; }
+pre { overflow-x: auto; background: #111827; color: #f9fafb; padding: 0.75rem; border-radius: 0.5rem; }
+pre button { display: none; }
+.sources { font-size: 0.8rem; }
+`;
+
+// A single file that opens in any browser, with its images and audio inlined.
+export const conversationToHtml = async ({ title, messages }: ExportedConversation) => {
+  const body = await Promise.all(exportable(messages).map(messageToHtml));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
+
+// Lossless: attachments are inlined as data URLs so the file can be imported
+// elsewhere and the conversation continued.
+export const conversationToJson = async (conversation: ExportedConversation) => {
+  const messages = await Promise.all(exportable(conversation.messages).map(async msg => msg.attachments
+    ? { ...msg, attachments: await Promise.all(msg.attachments.map(async a => ({ ...a, url: a.url && await urlToDataUrl(a.url) }))) }
+    : msg));
+  return JSON.stringify({ kind: JSON_KIND, version: JSON_VERSION, exportedAt: new Date().toISOString(), ...conversation, messages }, null, 2);
+};
+
+const USAGE_KINDS: UsageKind[] = ['text', 'image', 'edit', 'video', 'speech'];
+const SAFETY_CATEGORIES: SafetyCategory[] = ['harassment', 'hate', 'sexual', 'dangerous'];
+const SAFETY_THRESHOLDS: SafetyThreshold[] = ['none', 'high', 'medium', 'low'];
+const NUMBER_SETTINGS = ['temperature', 'topP', 'topK', 'maxOutputTokens', 'thinkingBudget'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+// Attachments that aren't inlined can't be restored and keep only their name.
+const importAttachment = (value: unknown, index: number): Attachment => {
+  if (!isRecord(value) || typeof value.name !== 'string' || typeof value.mimeType !== 'string') {
+    throw new Error(`Message ${index + 1} has an attachment that is not valid.`);
+  }
+  const { upload } = value;
+  return {
+    url: typeof value.url === 'string' && DATA_URL_PATTERN.test(value.url) ? value.url : '',
+    mimeType: value.mimeType,
+    name: value.name,
+    ...(isNumber(value.size) && { size: value.size }),
+    ...(isRecord(upload) && typeof upload.uri === 'string' && typeof upload.mimeType === 'string' && {
+      upload: { uri: upload.uri, mimeType: upload.mimeType, ...(isNumber(upload.expiresAt) && { expiresAt: upload.expiresAt }) },
+    }),
+    ...(value.displayOnly === true && { displayOnly: true }),
+  };
+};
+
+// Sources become links, so only web addresses are kept.
+const importSources = (value: unknown): Source[] =>
+  (Array.isArray(value) ? value : []).flatMap(source =>
+    isRecord(source) && typeof source.uri === 'string' && /^https?:\/\//i.test(source.uri)
+      ? [{ uri: source.uri, title: typeof source.title === 'string' ? source.title : '' }]
+      : []);
+
+// Usage only labels the message, so a malformed one is dropped.
+const importUsage = (value: unknown): Usage | undefined => {
+  if (!isRecord(value) || !isOneOf(USAGE_KINDS, value.kind) || typeof value.model !== 'string'
+    || !isNumber(value.latencyMs) || !isNumber(value.cost)) return undefined;
+  const counts = (['inputTokens', 'outputTokens', 'thinkingTokens', 'units'] as const).filter(key => isNumber(value[key]));
+  return { kind: value.kind, model: value.model, latencyMs: value.latencyMs, cost: value.cost, ...Object.fromEntries(counts.map(key => [key, value[key]])) };
+};
+
+// Settings are sent with every request, so a bad value fails the import
+// rather than every reply after it.
+const importSettings = (value: unknown): GenerationSettings => {
+  if (!isRecord(value)) throw new Error('The conversation settings are not valid.');
+  const settings: GenerationSettings = {};
+  for (const key of NUMBER_SETTINGS) {
+    if (value[key] === undefined) continue;
+    const setting = value[key];
+    if (!isNumber(setting)) throw new Error(`The ${key} setting must be a number.`);
+    settings[key] = setting;
+  }
+  const { stopSequences, safety } = value;
+  if (stopSequences !== undefined) {
+    if (!Array.isArray(stopSequences) || !stopSequences.every(s => typeof s === 'string')) {
+      throw new Error('The stopSequences setting must be a list of text.');
+    }
+    settings.stopSequences = stopSequences;
+  }
+  if (value.includeThoughts !== undefined) {
+    if (typeof value.includeThoughts !== 'boolean') throw new Error('The includeThoughts setting must be true or false.');
+    settings.includeThoughts = value.includeThoughts;
+  }
+  if (safety !== undefined) {
+    if (!isRecord(safety) || !Object.entries(safety).every(([category, threshold]) =>
+      isOneOf(SAFETY_CATEGORIES, category) && isOneOf(SAFETY_THRESHOLDS, threshold))) {
+      throw new Error('The safety setting is not valid.');
+    }
+    settings.safety = safety;
+  }
+  return settings;
+};
+
+// A response's config is only shown with it, so one the settings parser
+// rejects is dropped instead of failing the import.
+const importConfig = (value: unknown): ResponseConfig | undefined => {
+  if (!isRecord(value) || typeof value.model !== 'string') return undefined;
+  let settings: GenerationSettings;
+  try {
+    settings = importSettings(value);
+  } catch {
+    return undefined;
+  }
+  return { ...settings, model: value.model, ...(typeof value.hasSystemInstruction === 'boolean' && { hasSystemInstruction: value.hasSystemInstruction }) };
+};
+
+// The job itself stays behind in the exporting browser; its state only labels the message.
+const importVideoJob = (value: unknown): VideoJobState | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { id, status, prompt, startedAt, progress } = value;
+  if (typeof id !== 'string' || !isOneOf(Object.values(VideoJobStatus), status)
+    || !(typeof prompt === 'string' || prompt === null) || !isNumber(startedAt)) return undefined;
+  return { id, status, prompt: typeof prompt === 'string' ? prompt : null, startedAt, ...(isNumber(progress) && { progress }) };
+};
+
+const importEditOf = (value: unknown): ImageRef[] =>
+  (Array.isArray(value) ? value : []).flatMap(ref =>
+    isRecord(ref) && typeof ref.messageId === 'string' && isIndex(ref.index) ? [{ messageId: ref.messageId, index: ref.index }] : []);
+
+// Only known fields are kept; those that merely describe the message are
+// dropped when malformed, since the chat renders them without checking.
+const toMessage = (value: unknown, index: number): ChatMessage => {
+  if (!isRecord(value) || !isOneOf(Object.values(ChatRole), value.role) || typeof value.text !== 'string') {
+    throw new Error(`Message ${index + 1} is not a valid chat message.`);
+  }
+  const { attachments } = value;
+  if (attachments !== undefined && !Array.isArray(attachments)) {
+    throw new Error(`Message ${index + 1} has attachments that are not valid.`);
+  }
+  const sources = importSources(value.sources);
+  const editOf = importEditOf(value.editOf);
+  const config = importConfig(value.config);
+  const videoJob = importVideoJob(value.videoJob);
+  const usage = importUsage(value.usage);
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    role: value.role,
+    text: value.text,
+    ...(Array.isArray(attachments) && { attachments: attachments.map(a => importAttachment(a, index)) }),
+    ...(sources.length > 0 && { sources }),
+    ...(value.isLoading === true && { isLoading: true }),
+    ...(isOneOf(Object.values(ErrorKind), value.error) && { error: value.error }),
+    ...(videoJob && { videoJob }),
+    ...(editOf.length > 0 && { editOf }),
+    ...(value.masked === true && { masked: true }),
+    ...(isIndex(value.selectedVideo) && { selectedVideo: value.selectedVideo }),
+    ...(config && { config }),
+    ...(typeof value.thoughts === 'string' && { thoughts: value.thoughts }),
+    ...(isNumber(value.thoughtsTokenCount) && { thoughtsTokenCount: value.thoughtsTokenCount }),
+    ...(usage && { usage }),
+  };
+};
+
+export const parseConversationJson = (json: string): ExportedConversation => {
+  let data: Partial<ExportedConversation> & { kind?: unknown; version?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data?.kind !== JSON_KIND || !Array.isArray(data.messages)) {
+    throw new Error('The file is not an exported conversation.');
+  }
+  if (typeof data.version !== 'number' || data.version > JSON_VERSION) {
+    throw new Error('The file was exported by a newer version of the app.');
+  }
+  return {
+    title: typeof data.title === 'string' ? data.title : '',
+    mode: Object.values(AppMode).includes(data.mode as AppMode) ? data.mode as AppMode : AppMode.FLASH,
+    ...(typeof data.personaId === 'string' && { personaId: data.personaId }),
+    ...(data.settings !== undefined && { settings: importSettings(data.settings) }),
+    messages: data.messages.map(toMessage).filter(m => !m.isLoading),
+  };
+};
+
+// Turns a Live transcript into chat messages, so it exports (and imports) like a chat.
+export const liveTranscriptToMessages = (turns: LiveTurn[]): ChatMessage[] =>
+  turns.flatMap(turn => [
+    ...(turn.user.trim() ? [{ id: crypto.randomUUID(), role: ChatRole.USER, text: turn.user.trim() }] : []),
+    ...(turn.toolCalls ?? []).map(call => ({ id: crypto.randomUUID(), role: ChatRole.SYSTEM, text: `Tool call: ${describeToolCall(call)}` })),
+    ...(turn.model.trim() ? [{ id: crypto.randomUUID(), role: ChatRole.MODEL, text: turn.model.trim() }] : []),
+  ]);
+
+export const downloadConversation = async (conversation: ExportedConversation, format: ExportFormat) => {
+  const content = format === 'json' ? await conversationToJson(conversation)
+    : format === 'html' ? await conversationToHtml(conversation)
+    : conversationToMarkdown(conversation);
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${conversation.title.replace(/[^\w\- ]+/g, '').trim() || 'conversation'}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
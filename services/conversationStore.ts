@@ -0,0 +1,173 @@
+import { AppMode, Attachment, ChatMessage, ChatRole, Conversation, ConversationSummary, GenerationSettings } from '../types';
+import { CONVERSATIONS, MEDIA, openDB, promisify, store } from './db';
+import { blobToDataUrl } from './attachments';
+
+export const DEFAULT_TITLE = 'New chat';
+const TITLE_LENGTH = 48;
+
+// Attachments are stored as blobs in their own object store; the message keeps
+// a reference so data URLs and `blob:` URLs survive a reload.
+const MEDIA_REF_PREFIX = 'idb-media:';
+
+interface MediaRecord {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+}
+
+const toSummary = ({ messages, ...summary }: Conversation): ConversationSummary => summary;
+
+const titleFrom = (messages: ChatMessage[]) => {
+  const firstPrompt = messages.find(msg => msg.role === ChatRole.USER && msg.text.trim())?.text.trim();
+  if (!firstPrompt) return DEFAULT_TITLE;
+  return firstPrompt.length > TITLE_LENGTH ? `${firstPrompt.slice(0, TITLE_LENGTH)}…` : firstPrompt;
+};
+
+// Keys of media already written, so unchanged messages aren't re-fetched on every save.
+const persistedMedia = new Set<string>();
+
+const storeMedia = async (conversationId: string, id: string, url: string) => {
+  if (url.startsWith(MEDIA_REF_PREFIX)) return url;
+  if (!persistedMedia.has(id)) {
+    const blob = await (await fetch(url)).blob();
+    await promisify((await store(MEDIA, 'readwrite')).put({ id, conversationId, blob } as MediaRecord));
+    persistedMedia.add(id);
+  }
+  return `${MEDIA_REF_PREFIX}${id}`;
+};
+
+const persistMedia = async (conversationId: string, msg: ChatMessage): Promise<ChatMessage> => {
+  if (!msg.attachments) return msg;
+  const attachments = await Promise.all(msg.attachments.map(async (attachment, i) => ({
+    ...attachment,
+    url: attachment.url && await storeMedia(conversationId, `${conversationId}/${msg.id}/attachments/${i}`, attachment.url),
+  })));
+  return { ...msg, attachments };
+};
+
+// Images come back as data URLs so they can be resent to the model as history;
+// other attachments become object URLs.
+const restoreMedia = async (msg: ChatMessage): Promise<ChatMessage> => {
+  if (!msg.attachments) return msg;
+
+  const attachments = await Promise.all(msg.attachments.map(async (attachment): Promise<Attachment | null> => {
+    if (!attachment.url.startsWith(MEDIA_REF_PREFIX)) return attachment;
+    const id = attachment.url.slice(MEDIA_REF_PREFIX.length);
+    const record = await promisify<MediaRecord | undefined>((await store(MEDIA)).get(id));
+    if (!record) return null;
+    persistedMedia.add(id);
+    const mimeType = record.blob.type || attachment.mimeType;
+    const url = mimeType.startsWith('image/') ? await blobToDataUrl(record.blob) : URL.createObjectURL(record.blob);
+    return { ...attachment, url, mimeType, size: attachment.size ?? record.blob.size };
+  }));
+  // Missing media keeps its place, so image references stay valid.
+  return { ...msg, attachments: attachments.map((a, i) => a ?? { ...msg.attachments![i], url: '' }) };
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  const all = await promisify<Conversation[]>((await store(CONVERSATIONS)).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt).map(toSummary);
+};
+
+// Matches the title or any message text, case-insensitively.
+export const searchConversations = async (query: string): Promise<ConversationSummary[]> => {
+  const needle = query.trim().toLowerCase();
+  const all = await promisify<Conversation[]>((await store(CONVERSATIONS)).getAll());
+  return all
+    .filter(c => !needle
+      || c.title.toLowerCase().includes(needle)
+      || c.messages.some(msg => msg.text.toLowerCase().includes(needle)))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(toSummary);
+};
+
+export const createConversation = async (mode: AppMode, messages: ChatMessage[] = [], personaId?: string): Promise<Conversation> => {
+  const now = Date.now();
+  const conversation: Conversation = {
+    id: crypto.randomUUID(),
+    title: DEFAULT_TITLE,
+    mode,
+    ...(personaId && { personaId }),
+    createdAt: now,
+    updatedAt: now,
+    messages,
+  };
+  await promisify((await store(CONVERSATIONS, 'readwrite')).put(conversation));
+  return conversation;
+};
+
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  const conversation = await promisify<Conversation | undefined>((await store(CONVERSATIONS)).get(id));
+  if (!conversation) return null;
+  return { ...conversation, messages: await Promise.all(conversation.messages.map(restoreMedia)) };
+};
+
+// Stores a conversation read from an export as a new one. Its media, given as
+// data URLs, moves into the media store like that of any other conversation.
+export const importConversation = async (imported: Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'>): Promise<Conversation> => {
+  const now = Date.now();
+  const id = crypto.randomUUID();
+  const messages = await Promise.all(imported.messages.map(msg => persistMedia(id, msg)));
+  const conversation: Conversation = {
+    ...imported,
+    id,
+    title: imported.title.trim() || titleFrom(messages),
+    createdAt: now,
+    updatedAt: now,
+    messages,
+  };
+  await promisify((await store(CONVERSATIONS, 'readwrite')).put(conversation));
+  return conversation;
+};
+
+// Saves the messages, mode, persona and settings of an existing conversation. Messages still
+// loading are left out, except video jobs, which resume after a reload. A
+// conversation still on the default title is named after its first prompt.
+export const saveConversation = async (id: string, update: { messages: ChatMessage[]; mode: AppMode; personaId?: string; settings?: GenerationSettings }) => {
+  const existing = await promisify<Conversation | undefined>((await store(CONVERSATIONS)).get(id));
+  if (!existing) return;
+
+  const messages = await Promise.all(update.messages.filter(msg => !msg.isLoading || msg.videoJob).map(msg => persistMedia(id, msg)));
+  const conversation: Conversation = {
+    ...existing,
+    mode: update.mode,
+    personaId: update.personaId,
+    settings: update.settings,
+    messages,
+    title: existing.title === DEFAULT_TITLE ? titleFrom(messages) : existing.title,
+    updatedAt: Date.now(),
+  };
+  await promisify((await store(CONVERSATIONS, 'readwrite')).put(conversation));
+};
+
+// Updates one message of a stored conversation, for results that arrive while
+// the conversation may not be open (such as background video jobs).
+export const updateStoredMessage = async (conversationId: string, messageId: string, update: Partial<ChatMessage>) => {
+  const existing = await promisify<Conversation | undefined>((await store(CONVERSATIONS)).get(conversationId));
+  if (!existing) return;
+
+  const messages = await Promise.all(existing.messages.map(msg =>
+    msg.id === messageId ? persistMedia(conversationId, { ...msg, ...update }) : msg));
+  await promisify((await store(CONVERSATIONS, 'readwrite')).put({ ...existing, messages }));
+};
+
+export const renameConversation = async (id: string, title: string) => {
+  const existing = await promisify<Conversation | undefined>((await store(CONVERSATIONS)).get(id));
+  if (!existing) return;
+  await promisify((await store(CONVERSATIONS, 'readwrite')).put({ ...existing, title: title.trim() || DEFAULT_TITLE }));
+};
+
+export const deleteConversation = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction([CONVERSATIONS, MEDIA], 'readwrite');
+  tx.objectStore(CONVERSATIONS).delete(id);
+  const mediaKeys = await promisify(tx.objectStore(MEDIA).index('conversationId').getAllKeys(id));
+  mediaKeys.forEach(key => {
+    tx.objectStore(MEDIA).delete(key);
+    persistedMedia.delete(key as string);
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,63 @@
+// Shared IndexedDB connection for everything the app persists locally.
+
+const DB_NAME = 'meta-world-ai';
+const DB_VERSION = 4;
+
+export const CONVERSATIONS = 'conversations';
+export const MEDIA = 'media';
+export const VIDEO_JOBS = 'videoJobs';
+export const PERSONAS = 'personas';
+export const USAGE = 'usage';
+// Small app-wide preferences, stored under a key each.
+export const SETTINGS = 'settings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const conversations = db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+          conversations.createIndex('updatedAt', 'updatedAt');
+          const media = db.createObjectStore(MEDIA, { keyPath: 'id' });
+          media.createIndex('conversationId', 'conversationId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(VIDEO_JOBS, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(PERSONAS, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          const usage = db.createObjectStore(USAGE, { keyPath: 'id' });
+          usage.createIndex('timestamp', 'timestamp');
+          db.createObjectStore(SETTINGS);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const store = async (name: string, mode: IDBTransactionMode = 'readonly') => {
+  const db = await openDB();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+export const readSetting = async <T>(key: string): Promise<T | undefined> =>
+  await promisify<T | undefined>((await store(SETTINGS)).get(key));
+
+export const writeSetting = async <T>(key: string, value: T) => {
+  await promisify((await store(SETTINGS, 'readwrite')).put(value, key));
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ErrorKind } from '../types';
+import { ModelError, classifyError, withRetry } from './errors';
+
+const withStatus = (status: number, message = 'failed') => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it('uses the HTTP status when there is one', () => {
+    expect(classifyError(withStatus(401)).kind).toBe(ErrorKind.AUTH);
+    expect(classifyError(withStatus(429)).kind).toBe(ErrorKind.QUOTA);
+    expect(classifyError(withStatus(504)).kind).toBe(ErrorKind.TIMEOUT);
+    expect(classifyError(withStatus(503)).kind).toBe(ErrorKind.SERVER);
+    expect(classifyError(withStatus(400)).kind).toBe(ErrorKind.INVALID_ARGUMENT);
+  });
+
+  it('falls back to the API status names in the message', () => {
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe(ErrorKind.AUTH);
+    expect(classifyError(new Error('Candidate was blocked due to SAFETY')).kind).toBe(ErrorKind.SAFETY);
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe(ErrorKind.NETWORK);
+    expect(classifyError('something odd').kind).toBe(ErrorKind.UNKNOWN);
+  });
+
+  it('reads the suggested retry delay', () => {
+    expect(classifyError(withStatus(429, 'RESOURCE_EXHAUSTED. Please retry in 2.5s.')).retryAfterMs).toBe(2500);
+  });
+
+  it('passes ModelErrors through', () => {
+    const error = new ModelError(ErrorKind.SERVER, 'down');
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(withStatus(503))
+      .mockRejectedValueOnce(withStatus(429))
+      .mockResolvedValue('ok');
+    const result = withRetry(task);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on permanent failures at once', async () => {
+    const task = vi.fn().mockRejectedValue(withStatus(400));
+    await expect(withRetry(task)).rejects.toMatchObject({ kind: ErrorKind.INVALID_ARGUMENT });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the last retry', async () => {
+    const task = vi.fn().mockRejectedValue(withStatus(500));
+    const result = withRetry(task, { retries: 2 });
+    const assertion = expect(result).rejects.toMatchObject({ kind: ErrorKind.SERVER });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows aborts without retrying', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = vi.fn().mockRejectedValue(withStatus(503));
+    await expect(withRetry(task, { signal: controller.signal })).rejects.toMatchObject({ status: 503 });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
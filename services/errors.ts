@@ -0,0 +1,106 @@
+import { ErrorKind } from '../types';
+
+export { ErrorKind };
+
+export class ModelError extends Error {
+  constructor(
+    public readonly kind: ErrorKind,
+    message: string,
+    // Server-suggested wait before retrying, when the error carries one.
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+const TRANSIENT_KINDS = new Set([ErrorKind.QUOTA, ErrorKind.NETWORK, ErrorKind.TIMEOUT, ErrorKind.SERVER]);
+
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 30000;
+
+// Short explanations shown in the chat in place of raw API messages.
+const DESCRIPTIONS: Record<ErrorKind, string> = {
+  [ErrorKind.AUTH]: 'The API key was rejected. Please re-select your key.',
+  [ErrorKind.QUOTA]: 'Rate limit or quota exceeded. Wait a moment and try again.',
+  [ErrorKind.SAFETY]: 'The request was blocked by safety filters. Try rephrasing it.',
+  [ErrorKind.NETWORK]: 'Could not reach the server. Check your connection.',
+  [ErrorKind.TIMEOUT]: 'The request timed out.',
+  [ErrorKind.SERVER]: 'The model is temporarily unavailable.',
+  [ErrorKind.INVALID_ARGUMENT]: 'The request was rejected as invalid. Try rephrasing it or changing the attachment.',
+  [ErrorKind.UNKNOWN]: 'Something went wrong.',
+};
+
+export const isTransient = (error: ModelError) => TRANSIENT_KINDS.has(error.kind);
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const describeError = (error: ModelError) => DESCRIPTIONS[error.kind];
+
+const parseRetryAfter = (message: string) => {
+  const match = message.match(/retry in ([\d.]+)s/i) ?? message.match(/"retryDelay":\s*"([\d.]+)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps anything a provider throws onto an ErrorKind, using the HTTP status
+// when present and the API's status names otherwise.
+export const classifyError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  const make = (kind: ErrorKind, retryAfterMs?: number) => new ModelError(kind, message, retryAfterMs);
+
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|Requested entity was not found/i.test(message)) {
+    return make(ErrorKind.AUTH);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return make(ErrorKind.QUOTA, parseRetryAfter(message));
+  }
+  if (status === 504 || (error instanceof DOMException && error.name === 'TimeoutError') || /DEADLINE_EXCEEDED|timed out|timeout/i.test(message)) {
+    return make(ErrorKind.TIMEOUT);
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|INTERNAL/.test(message)) {
+    return make(ErrorKind.SERVER);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message) || /NetworkError|Failed to fetch|ERR_NETWORK/i.test(message)) {
+    return make(ErrorKind.NETWORK);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return make(ErrorKind.SAFETY);
+  }
+  if (status === 400 || /INVALID_ARGUMENT/.test(message)) {
+    return make(ErrorKind.INVALID_ARGUMENT);
+  }
+  return make(ErrorKind.UNKNOWN);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Runs `task`, retrying transient failures with exponential backoff and jitter.
+// Errors that reach the caller are always ModelErrors, except aborts.
+export const withRetry = async <T>(task: () => Promise<T>, { retries = MAX_RETRIES, signal }: { retries?: number; signal?: AbortSignal } = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) throw e;
+      const error = classifyError(e);
+      if (!isTransient(error) || attempt >= retries) throw error;
+
+      const backoff = Math.min(MAX_DELAY, error.retryAfterMs ?? BASE_DELAY * 2 ** attempt);
+      const delay = backoff + Math.random() * BASE_DELAY;
+      console.warn(`${error.kind} error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${retries})`);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+// Camera or screen capture for Live sessions: the stream is sampled into JPEG
+// frames at a low rate, which is what the Live API expects for realtime video.
+
+export type FrameSource = 'camera' | 'screen';
+
+export const FRAME_MIME_TYPE = 'image/jpeg';
+// Frames per second offered to the user; the Live API processes about one.
+export const FRAME_RATES = [0.5, 1, 2];
+export const DEFAULT_FRAME_RATE = 1;
+
+// Frames are scaled down so their longer side is at most this many pixels.
+const MAX_FRAME_SIZE = 768;
+const JPEG_QUALITY = 0.7;
+
+export interface FrameCapture {
+  // For showing a local preview.
+  stream: MediaStream;
+  // Changes the rate without asking for the camera or screen again.
+  setFramesPerSecond: (framesPerSecond: number) => void;
+  stop: () => void;
+}
+
+export interface FrameCaptureOptions {
+  source: FrameSource;
+  framesPerSecond: number;
+  // Base64-encoded JPEG.
+  onFrame: (base64: string) => void;
+  // Called when capture ends from outside, such as the browser's "Stop sharing" button.
+  onEnded: () => void;
+}
+
+// Rejects when the user denies access or cancels the screen picker.
+export const startFrameCapture = async ({ source, framesPerSecond, onFrame, onEnded }: FrameCaptureOptions): Promise<FrameCapture> => {
+  const stream = source === 'screen'
+    ? await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+    : await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+
+  const stopTracks = () => stream.getTracks().forEach(track => track.stop());
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (error) {
+    stopTracks();
+    video.srcObject = null;
+    throw error;
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const captureFrame = () => {
+    if (!video.videoWidth) return;
+    const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onFrame(canvas.toDataURL(FRAME_MIME_TYPE, JPEG_QUALITY).split(',')[1]);
+  };
+  let rate = framesPerSecond;
+  let timer = setInterval(captureFrame, 1000 / rate);
+
+  let stopped = false;
+  const setFramesPerSecond = (next: number) => {
+    if (stopped || next === rate) return;
+    rate = next;
+    clearInterval(timer);
+    timer = setInterval(captureFrame, 1000 / rate);
+  };
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    stopTracks();
+    video.srcObject = null;
+  };
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    stop();
+    onEnded();
+  });
+  return { stream, setFramesPerSecond, stop };
+};
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppMode, ChatMessage, ChatRole } from '../types';
+import { generateText } from './geminiService';
+
+const provider = vi.hoisted(() => ({
+  generateText: vi.fn(),
+  models: {},
+}));
+
+vi.mock('./providers', () => ({ getProvider: () => provider }));
+// Pricing reads the price table from IndexedDB.
+vi.mock('./usage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./usage')>(),
+  priceUsage: async (usage: object) => ({ ...usage, cost: 0 }),
+}));
+
+const message = (role: ChatRole, text: string): ChatMessage => ({ id: crypto.randomUUID(), role, text });
+
+describe('generateText', () => {
+  beforeEach(() => {
+    provider.generateText.mockReset().mockResolvedValue({ text: 'reply' });
+  });
+
+  it('sends a short conversation without summarizing the welcome', async () => {
+    const history = [message(ChatRole.MODEL, 'Welcome!'), message(ChatRole.USER, 'hi'), message(ChatRole.MODEL, 'hello')];
+    await generateText('how are you?', AppMode.FLASH, [], history);
+    expect(provider.generateText).toHaveBeenCalledTimes(1);
+    expect(provider.generateText.mock.calls[0][0].contents.map((c: { role: string }) => c.role)).toEqual(['user', 'model', 'user']);
+  });
+
+  it('sends the first message on its own', async () => {
+    await generateText('hi', AppMode.FLASH, [], [message(ChatRole.MODEL, 'Welcome!')]);
+    expect(provider.generateText).toHaveBeenCalledTimes(1);
+    expect(provider.generateText.mock.calls[0][0].contents).toEqual([{ role: 'user', parts: [{ text: 'hi' }] }]);
+  });
+});
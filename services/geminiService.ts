@@ -1,14 +1,26 @@
-
-import { GoogleGenAI, GenerateContentResponse, Modality, Type, LiveServerMessage } from "@google/genai";
-import { AppMode, FileData, VideoAspectRatio, AspectRatio } from '../types';
-
-let ai: GoogleGenAI;
-
-const getAI = () => {
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-  }
-  return ai;
+import { Content, Part } from "@google/genai";
+import { AppMode, ChatMessage, ChatRole, FileData, ImageRequest, Intent, Usage, VideoRequest } from '../types';
+import { estimateTokens, fitHistory, getHistoryBudget, inlineBytes, transcriptForSummary } from './conversationContext';
+import { classifyError, isAbortError, withRetry } from './errors';
+import { getProvider, LiveCallbacks, LiveOptions, LiveSession, TextResult, TextSettings } from './providers';
+import { costOf, getPrices, priceUsage, recordUsage, videoSeconds } from './usage';
+
+// Text results from the service also carry the usage of the call (on the last
+// chunk, when streamed).
+export type TrackedTextResult = TextResult & { usage?: Usage };
+
+const textUsage = (result: TextResult, startedAt: number) => priceUsage({
+  kind: 'text',
+  model: result.config?.model ?? 'unknown',
+  ...result.tokens,
+  latencyMs: Date.now() - startedAt,
+});
+
+// Calls made on the app's behalf rather than for a message are logged without a conversation.
+const recordBackgroundUsage = (result: TextResult, startedAt: number) => {
+  textUsage(result, startedAt)
+    .then(usage => recordUsage(usage))
+    .catch(error => console.error("Error recording usage:", error));
 };
 
 // Helper to convert file to base64
@@ -23,151 +35,197 @@ export const fileToGenerativePart = async (file: File) => {
   };
 };
 
-export const generateText = async (prompt: string, mode: AppMode, image?: FileData): Promise<GenerateContentResponse> => {
-  const ai = getAI();
-  const modelName = mode === AppMode.SEARCH ? AppMode.FLASH : mode;
-  
-  const contents = image ? { parts: [{ text: prompt }, { inlineData: { data: image.base64, mimeType: image.mimeType } }] } : prompt;
+// Summaries of dropped turns, keyed by the id of the last message they cover,
+// so a long chat is only re-summarized when more turns fall out of the window.
+const summaryCache = new Map<string, string>();
+const SUMMARY_MAX_TOKENS = 1024;
+
+const summarizeMessages = async (messages: ChatMessage[]) => {
+  const key = messages[messages.length - 1].id;
+  const cached = summaryCache.get(key);
+  if (cached) return cached;
+
+  const startedAt = Date.now();
+  const response = await withRetry(() => getProvider().generateText({
+    mode: AppMode.LITE,
+    contents: [{ role: 'user', parts: [{ text: `Summarize the following conversation so it can be continued later. Keep names, facts, decisions and open questions. Be concise.\n\n${transcriptForSummary(messages)}` }] }],
+    maxOutputTokens: SUMMARY_MAX_TOKENS,
+  }));
+  recordBackgroundUsage(response, startedAt);
+  const summary = response.text;
+  summaryCache.set(key, summary);
+  return summary;
+};
 
-  return await ai.models.generateContent({
-    model: modelName,
-    contents,
-    config: {
-      ...(mode === AppMode.PRO && { thinkingConfig: { thinkingBudget: 32768 } }),
-      ...(mode === AppMode.SEARCH && { tools: [{ googleSearch: {} }] }),
-    },
-  });
+// Larger attachments go through the provider's file upload; requests have a
+// total size limit of about 20MB. Inline media from history shares this limit.
+const INLINE_LIMIT = 15 * 1024 * 1024;
+
+const TIMESTAMP_INSTRUCTION = 'When you refer to moments in the attached media, give MM:SS timestamps.';
+
+const attachmentPart = (file: FileData): Part => file.upload
+  ? { fileData: { fileUri: file.upload.uri, mimeType: file.upload.mimeType } }
+  : { inlineData: { data: file.base64, mimeType: file.mimeType } };
+
+const isTimedMedia = (file: FileData) => file.mimeType.startsWith('video/') || file.mimeType.startsWith('audio/');
+
+const inlineSize = (file: FileData) => file.upload ? 0 : file.base64.length * 3 / 4;
+
+// Uploads the largest files until the rest fit inline. The returned copies
+// reference their uploads, so retries and later turns don't upload them again.
+export const prepareAttachments = async (files: FileData[]): Promise<FileData[]> => {
+  const prepared = [...files];
+  let total = files.reduce((sum, file) => sum + inlineSize(file), 0);
+  const bySize = files.map((file, i) => i).sort((a, b) => inlineSize(files[b]) - inlineSize(files[a]));
+  for (const i of bySize) {
+    if (total <= INLINE_LIMIT || inlineSize(files[i]) === 0) break;
+    const upload = await withRetry(() => getProvider().uploadFile(files[i]));
+    total -= inlineSize(files[i]);
+    prepared[i] = { ...files[i], upload };
+  }
+  return prepared;
 };
 
-export const generateImage = async (prompt: string, aspectRatio: AspectRatio) => {
-  const ai = getAI();
-  const response = await ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio: aspectRatio,
-    },
-  });
-  return response.generatedImages[0].image.imageBytes;
-};
-
-export const editImage = async (prompt: string, image: FileData) => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        { inlineData: { data: image.base64, mimeType: image.mimeType } },
-        { text: prompt },
-      ],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
-  
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) {
-      return part.inlineData.data;
-    }
+// Builds the request contents from earlier chat messages plus the new turn.
+// Turns that don't fit the mode's context window are replaced by a summary.
+const buildContents = async (prompt: string, mode: AppMode, history: ChatMessage[], files: FileData[]): Promise<Content[]> => {
+  const currentTurn: Content = {
+    role: 'user',
+    parts: [
+      ...files.map(attachmentPart),
+      ...(files.some(isTimedMedia) ? [{ text: TIMESTAMP_INSTRUCTION }] : []),
+      ...(prompt ? [{ text: prompt }] : []),
+    ],
+  };
+  const budget = getHistoryBudget(mode) - estimateTokens(currentTurn) - SUMMARY_MAX_TOKENS;
+  const { contents, dropped } = fitHistory(history, budget, Math.max(0, INLINE_LIMIT - inlineBytes(currentTurn)));
+
+  // History must start with a user turn, so model messages before the first
+  // one (like the welcome) are always dropped; they aren't worth a summary.
+  if (!dropped.some(msg => msg.role === ChatRole.USER)) {
+    return [...contents, currentTurn];
   }
-  throw new Error("No edited image found in response");
+  const summary = await summarizeMessages(dropped);
+  return [
+    { role: 'user', parts: [{ text: `Summary of our earlier conversation:\n${summary}` }] },
+    { role: 'model', parts: [{ text: 'Got it, I will keep that in mind.' }] },
+    ...contents,
+    currentTurn,
+  ];
 };
 
+// Every call below retries transient failures and throws ModelErrors (see ./errors).
 
-export const generateVideo = async (prompt: string | null, image: FileData | null, aspectRatio: VideoAspectRatio) => {
-  const createNewAiInstance = () => new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-  let currentAi = createNewAiInstance();
+export const generateText = async (prompt: string, mode: AppMode, files: FileData[] = [], history: ChatMessage[] = [], settings: TextSettings = {}): Promise<TrackedTextResult> => {
+  const contents = await buildContents(prompt, mode, history, files);
+  const startedAt = Date.now();
+  const result = await withRetry(() => getProvider().generateText({ ...settings, mode, contents }));
+  return { ...result, usage: await textUsage(result, startedAt) };
+};
 
-  const generate = async () => {
-      return await currentAi.models.generateVideos({
-          model: 'veo-3.1-fast-generate-preview',
-          ...(prompt && { prompt }),
-          ...(image && { image: { imageBytes: image.base64, mimeType: image.mimeType } }),
-          config: {
-              numberOfVideos: 1,
-              resolution: '720p',
-              aspectRatio: aspectRatio,
-          }
-      });
-  };
+// Same request as generateText, but yields partial responses as they arrive.
+// Aborting `signal` ends the stream; chunks already received are kept by the caller.
+// Only opening the stream is retried, since a retry mid-stream would repeat text.
+// A final empty chunk carries the usage of the whole response, or of what was
+// received before an abort, since that is billed too.
+export const generateTextStream = async (prompt: string, mode: AppMode, files: FileData[] = [], history: ChatMessage[] = [], settings: TextSettings = {}, signal?: AbortSignal): Promise<AsyncGenerator<TrackedTextResult>> => {
+  const contents = await buildContents(prompt, mode, history, files);
+  const startedAt = Date.now();
+  const stream = await withRetry(() => getProvider().generateTextStream({ ...settings, mode, contents, signal }), { signal });
+  return (async function* () {
+    let last: TextResult = { text: '' };
+    try {
+      for await (const chunk of stream) {
+        last = { ...chunk, config: chunk.config ?? last.config, tokens: chunk.tokens ?? last.tokens };
+        yield chunk;
+      }
+    } catch (e) {
+      if (!signal?.aborted && !isAbortError(e)) throw classifyError(e);
+    }
+    yield { text: '', usage: await textUsage(last, startedAt) };
+  })();
+};
 
+const INTENT_INSTRUCTION = `Decide what the user wants done with their message. Reply with one word:
+ask - answer or discuss, including questions about attached files
+edit - change the attached image
+animate - turn the attached image, or the description, into a video
+generate - create a new image from the description`;
+
+// Guesses the intent of a message with a cheap model. Only the attachments'
+// types are sent, not their contents. Returns null when the answer is unclear.
+export const classifyIntent = async (prompt: string, attachmentTypes: string[]): Promise<Intent | null> => {
+  const attachments = attachmentTypes.length ? attachmentTypes.join(', ') : 'none';
+  const startedAt = Date.now();
+  const response = await withRetry(() => getProvider().generateText({
+    mode: AppMode.LITE,
+    contents: [{ role: 'user', parts: [{ text: INTENT_INSTRUCTION }, { text: `Attachments: ${attachments}` }, { text: prompt }] }],
+    maxOutputTokens: 8,
+  }));
+  recordBackgroundUsage(response, startedAt);
+  const match = response.text.trim().toLowerCase().match(/^\W*(ask|edit|animate|generate)\b/);
+  return match ? match[1] as Intent : null;
+};
+
+export const generateImage = async (request: ImageRequest) => {
+  const startedAt = Date.now();
+  const images = await withRetry(() => getProvider().generateImage(request));
+  const usage = await priceUsage({ kind: 'image', model: getProvider().models.image, units: images.length, latencyMs: Date.now() - startedAt });
+  return { images, usage };
+};
+
+export const editImage = async (prompt: string, images: FileData[], mask?: FileData) => {
+  const startedAt = Date.now();
+  const { base64, tokens } = await withRetry(() => getProvider().editImage(prompt, images, mask));
+  const usage = await priceUsage({ kind: 'edit', model: getProvider().models.edit, ...tokens, latencyMs: Date.now() - startedAt });
+  return { base64, usage };
+};
+
+// Veo is billed per second of video, so its cost is known before it starts.
+export const estimateVideoCost = async (request: VideoRequest) =>
+  costOf({ kind: 'video', model: getProvider().models.video[request.quality], units: videoSeconds(request), latencyMs: 0 }, await getPrices());
+
+// The usage of a finished video job; its latency runs from start to download.
+export const videoUsage = async (request: VideoRequest, startedAt: number) => priceUsage({
+  kind: 'video',
+  model: getProvider().models.video[request.quality],
+  units: videoSeconds(request),
+  latencyMs: Date.now() - startedAt,
+});
+
+// Not retried: each attempt starts a new (billed) video job.
+export const startVideoOperation = async (request: VideoRequest) => {
   try {
-      let operation = await generate();
-      while (!operation.done) {
-          await new Promise(resolve => setTimeout(resolve, 10000));
-          try {
-              operation = await currentAi.operations.getVideosOperation({ operation: operation });
-          } catch (e: any) {
-              if (e.message.includes("Requested entity was not found.")) {
-                  console.warn("API key might be stale. Re-initializing and retrying.");
-                  currentAi = createNewAiInstance(); // re-initialize
-                  // We can't re-get the operation, we have to restart it.
-                  // This is a simplification. A real app might need to store operation ID.
-                  throw new Error("API key invalid, please re-select and try again.");
-              }
-              throw e;
-          }
-      }
-      const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!downloadLink) {
-          throw new Error("Video generation succeeded but no download link was provided.");
-      }
-      const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-      const videoBlob = await videoResponse.blob();
-      return URL.createObjectURL(videoBlob);
-  } catch(e: any) {
-      if (e.message.includes("API key not valid.")) {
-           throw new Error("API key invalid, please re-select and try again.");
-      }
-      throw e;
+    return await getProvider().startVideo(request);
+  } catch (e) {
+    throw classifyError(e);
   }
 };
 
+export const pollVideoOperation = async (operationName: string) => {
+  return await withRetry(() => getProvider().pollVideo(operationName));
+};
 
-export const textToSpeech = async (text: string) => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
-        },
-      },
-    },
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-};
-
-
-export const connectLive = async (callbacks: {
-    onOpen: () => void,
-    onMessage: (message: LiveServerMessage) => void,
-    onError: (e: ErrorEvent) => void,
-    onClose: (e: CloseEvent) => void,
-}) => {
-    const ai = getAI();
-    return await ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-            onopen: callbacks.onOpen,
-            onmessage: callbacks.onMessage,
-            onerror: callbacks.onError,
-            onclose: callbacks.onClose,
-        },
-        config: {
-            responseModalities: [Modality.AUDIO],
-            inputAudioTranscription: {},
-            outputAudioTranscription: {},
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-            },
-            systemInstruction: 'You are a friendly and helpful AI assistant. Be concise.',
-        },
-    });
+// Not retried, and never fails: a cancelled job is dropped whatever the backend says.
+export const cancelVideoOperation = async (operationName: string) => {
+  try {
+    await getProvider().cancelVideo(operationName);
+  } catch (e) {
+    console.warn("Couldn't cancel the video operation:", e);
+  }
+};
+
+export const textToSpeech = async (text: string, voice?: string) => {
+  const startedAt = Date.now();
+  const { audio, tokens } = await withRetry(() => getProvider().textToSpeech(text, voice));
+  const usage = await priceUsage({ kind: 'speech', model: getProvider().models.tts, ...tokens, latencyMs: Date.now() - startedAt });
+  return { audio, usage };
+};
+
+export const connectLive = async (callbacks: LiveCallbacks, options?: LiveOptions): Promise<LiveSession> => {
+  return await withRetry(() => getProvider().connectLive(callbacks, options));
+};
+
+export const resetCredentials = () => {
+  getProvider().resetCredentials?.();
 };
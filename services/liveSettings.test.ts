@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { LiveSettings } from '../types';
+import { DEFAULT_LIVE_SETTINGS, supportedLiveSettings } from './liveSettings';
+
+const settings: LiveSettings = {
+  ...DEFAULT_LIVE_SETTINGS,
+  responseModality: 'text',
+  languageCode: 'de-DE',
+  affectiveDialog: true,
+  proactiveAudio: true,
+  voice: 'Kore',
+};
+
+describe('supportedLiveSettings', () => {
+  it('makes native audio models reply by voice in any language', () => {
+    expect(supportedLiveSettings({ ...settings, model: 'native-audio' })).toEqual({
+      ...settings,
+      model: 'native-audio',
+      responseModality: 'audio',
+      languageCode: undefined,
+    });
+  });
+
+  it('turns off what only native audio models do for half-cascade ones', () => {
+    expect(supportedLiveSettings({ ...settings, model: 'half-cascade' })).toEqual({
+      ...settings,
+      model: 'half-cascade',
+      affectiveDialog: false,
+      proactiveAudio: false,
+    });
+  });
+
+  it('keeps the voice and turn detection settings', () => {
+    const chosen = supportedLiveSettings({ ...settings, startSensitivity: 'low', silenceDurationMs: 500 });
+    expect(chosen).toMatchObject({ voice: 'Kore', startSensitivity: 'low', silenceDurationMs: 500 });
+  });
+});
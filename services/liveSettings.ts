@@ -0,0 +1,69 @@
+import { LiveModel, LivePreset, LiveResponseModality, LiveSettings, VadSensitivity } from '../types';
+import { readSetting, writeSetting } from './db';
+
+export const LIVE_MODEL_LABELS: Record<LiveModel, string> = {
+  'native-audio': 'Native audio',
+  'half-cascade': 'Half-cascade',
+};
+
+export const RESPONSE_MODALITY_LABELS: Record<LiveResponseModality, string> = { audio: 'Spoken', text: 'Text' };
+
+export const VAD_SENSITIVITY_LABELS: Record<VadSensitivity, string> = { default: 'Default', high: 'High', low: 'Low' };
+
+// Languages offered for half-cascade models, by BCP-47 code.
+export const LIVE_LANGUAGES: Record<string, string> = {
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'de-DE': 'German',
+  'es-US': 'Spanish (US)',
+  'fr-FR': 'French',
+  'hi-IN': 'Hindi',
+  'it-IT': 'Italian',
+  'ja-JP': 'Japanese',
+  'ko-KR': 'Korean',
+  'pt-BR': 'Portuguese (Brazil)',
+};
+
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+  model: 'native-audio',
+  responseModality: 'audio',
+  affectiveDialog: false,
+  proactiveAudio: false,
+  startSensitivity: 'default',
+  endSensitivity: 'default',
+};
+
+const SETTINGS_KEY = 'liveSettings';
+const PRESETS_KEY = 'livePresets';
+
+// Drops what the chosen model can't do, so the settings sent are ones it accepts.
+export const supportedLiveSettings = (settings: LiveSettings): LiveSettings =>
+  settings.model === 'native-audio'
+    ? { ...settings, responseModality: 'audio', languageCode: undefined }
+    : { ...settings, affectiveDialog: false, proactiveAudio: false };
+
+// The settings the last session started with; new fields get their defaults.
+export const getLiveSettings = async (): Promise<LiveSettings> =>
+  ({ ...DEFAULT_LIVE_SETTINGS, ...(await readSetting<Partial<LiveSettings>>(SETTINGS_KEY)) });
+
+export const saveLiveSettings = async (settings: LiveSettings) => {
+  await writeSetting(SETTINGS_KEY, settings);
+};
+
+export const listLivePresets = async () =>
+  ((await readSetting<LivePreset[]>(PRESETS_KEY)) ?? [])
+    .map(preset => ({ ...preset, settings: { ...DEFAULT_LIVE_SETTINGS, ...preset.settings } }));
+
+// A preset with the same name is replaced. Resolves with the updated list.
+export const saveLivePreset = async (preset: LivePreset) => {
+  const presets = [...(await listLivePresets()).filter(p => p.name !== preset.name), preset]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  await writeSetting(PRESETS_KEY, presets);
+  return presets;
+};
+
+export const deleteLivePreset = async (name: string) => {
+  const presets = (await listLivePresets()).filter(p => p.name !== name);
+  await writeSetting(PRESETS_KEY, presets);
+  return presets;
+};
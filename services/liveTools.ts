@@ -0,0 +1,153 @@
+import { AppMode, AspectRatio, ChatMessage, LiveToolCall } from '../types';
+import { MODE_NAMES } from './commands';
+import { ToolDeclaration } from './providers';
+
+// Functions the Live model can call. Each declares its parameters as a JSON
+// schema and runs in the browser; what it returns is sent back to the model.
+
+export interface LiveTool extends ToolDeclaration {
+  run: (args: Record<string, unknown>) => Promise<Record<string, unknown>>;
+}
+
+// What the built-in tools act on, supplied by the app.
+export interface LiveToolActions {
+  // Resolves with whether the image made it into the chat.
+  generateImage: (prompt: string, aspectRatio?: AspectRatio) => Promise<boolean>;
+  // Whether the text chat is waiting on a request, so it can't take another.
+  isBusy: () => boolean;
+  setMode: (mode: AppMode) => void;
+  getMessages: () => ChatMessage[];
+  startTimer: (seconds: number, label: string) => void;
+}
+
+// The actions that reach into the text chat; timers belong to the Live session.
+export type LiveChatActions = Omit<LiveToolActions, 'startTimer'>;
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const MAX_TIMER_SECONDS = 3 * 60 * 60;
+const MAX_SEARCH_RESULTS = 5;
+const SNIPPET_RADIUS = 80;
+
+// Thrown for arguments the model got wrong, or a call that can't run right
+// now; the message goes back to it.
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const stringArg = (args: Record<string, unknown>, name: string) => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) throw new ToolError(`"${name}" must be a non-empty string.`);
+  return value.trim();
+};
+
+// Matching messages of the open conversation, newest first, as short snippets.
+export const searchMessages = (messages: ChatMessage[], query: string) => {
+  const needle = query.toLowerCase();
+  return messages
+    .filter(m => !m.isLoading && m.text.toLowerCase().includes(needle))
+    .reverse()
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map(m => {
+      const at = m.text.toLowerCase().indexOf(needle);
+      const start = Math.max(0, at - SNIPPET_RADIUS);
+      const end = Math.min(m.text.length, at + needle.length + SNIPPET_RADIUS);
+      return { role: m.role, text: `${start > 0 ? '…' : ''}${m.text.slice(start, end)}${end < m.text.length ? '…' : ''}` };
+    });
+};
+
+export const builtInTools = (actions: LiveToolActions): LiveTool[] => [
+  {
+    name: 'generate_image',
+    description: 'Generates an image from a description and adds it to the text chat.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'What the image should show.' },
+        aspect_ratio: { type: 'string', enum: ASPECT_RATIOS },
+      },
+      required: ['prompt'],
+    },
+    run: async (args) => {
+      const aspectRatio = ASPECT_RATIOS.includes(args.aspect_ratio as AspectRatio) ? args.aspect_ratio as AspectRatio : undefined;
+      const prompt = stringArg(args, 'prompt');
+      if (actions.isBusy()) throw new ToolError('The text chat is busy with another request. Try again once it has finished.');
+      const added = await actions.generateImage(prompt, aspectRatio);
+      return { status: added ? 'The image was added to the chat.' : 'The image could not be generated.' };
+    },
+  },
+  {
+    name: 'switch_chat_mode',
+    description: 'Switches the model used by the text chat.',
+    parameters: {
+      type: 'object',
+      properties: { mode: { type: 'string', enum: Object.keys(MODE_NAMES) } },
+      required: ['mode'],
+    },
+    run: async (args) => {
+      const mode = MODE_NAMES[stringArg(args, 'mode').toLowerCase()];
+      if (!mode) throw new ToolError(`"mode" must be one of ${Object.keys(MODE_NAMES).join(', ')}.`);
+      actions.setMode(mode);
+      return { status: `The chat now uses ${args.mode} mode.` };
+    },
+  },
+  {
+    name: 'set_timer',
+    description: 'Starts a countdown timer. The user is told when it ends.',
+    parameters: {
+      type: 'object',
+      properties: {
+        seconds: { type: 'integer', minimum: 1, maximum: MAX_TIMER_SECONDS },
+        label: { type: 'string', description: 'What the timer is for.' },
+      },
+      required: ['seconds'],
+    },
+    run: async (args) => {
+      const seconds = Math.round(Number(args.seconds));
+      if (!(seconds >= 1 && seconds <= MAX_TIMER_SECONDS)) throw new ToolError(`"seconds" must be between 1 and ${MAX_TIMER_SECONDS}.`);
+      const label = typeof args.label === 'string' && args.label.trim() ? args.label.trim() : 'Timer';
+      actions.startTimer(seconds, label);
+      return { status: `Timer "${label}" started for ${seconds} seconds.` };
+    },
+  },
+  {
+    name: 'search_conversation',
+    description: 'Searches the messages of the open text chat.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Words to look for.' } },
+      required: ['query'],
+    },
+    run: async (args) => ({ matches: searchMessages(actions.getMessages(), stringArg(args, 'query')) }),
+  },
+];
+
+// Looks tools up by name. Failures become error responses instead of
+// exceptions, so the model can explain them or try again.
+export const createToolRegistry = (tools: LiveTool[]) => {
+  const byName = new Map(tools.map(tool => [tool.name, tool]));
+  return {
+    declarations: tools.map(({ name, description, parameters }): ToolDeclaration => ({ name, description, parameters })),
+    run: async (name: string, args: Record<string, unknown>): Promise<Pick<LiveToolCall, 'result' | 'error'>> => {
+      const tool = byName.get(name);
+      if (!tool) return { error: `There is no tool named "${name}".` };
+      try {
+        return { result: await tool.run(args) };
+      } catch (error) {
+        if (!(error instanceof ToolError)) console.error(`Error running tool ${name}:`, error);
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+  };
+};
+
+// One line for transcripts: the call, its arguments and how it went.
+export const describeToolCall = ({ name, args, result, error, cancelled }: LiveToolCall) => {
+  const call = `${name}(${Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')})`;
+  if (cancelled) return `${call} — cancelled`;
+  if (error) return `${call} — failed: ${error}`;
+  if (!result) return `${call} — running…`;
+  return `${call} — ${typeof result.status === 'string' ? result.status : 'done'}`;
+};
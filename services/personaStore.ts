@@ -0,0 +1,68 @@
+import { AppMode, Persona } from '../types';
+import { PERSONAS, promisify, store } from './db';
+
+// Prebuilt voices shared by Live sessions and text-to-speech.
+export const PERSONA_VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede'];
+export const DEFAULT_VOICE = 'Zephyr';
+export const DEFAULT_TEMPERATURE = 1;
+
+const EXPORT_VERSION = 1;
+
+export const newPersona = (): Persona => ({
+  id: crypto.randomUUID(),
+  name: '',
+  systemPrompt: '',
+  mode: AppMode.FLASH,
+  voice: DEFAULT_VOICE,
+  temperature: DEFAULT_TEMPERATURE,
+});
+
+export const listPersonas = async (): Promise<Persona[]> => {
+  const all = await promisify<Persona[]>((await store(PERSONAS)).getAll());
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePersona = async (persona: Persona) => {
+  await promisify((await store(PERSONAS, 'readwrite')).put(persona));
+};
+
+export const deletePersona = async (id: string) => {
+  await promisify((await store(PERSONAS, 'readwrite')).delete(id));
+};
+
+export const personasToJson = (personas: Persona[]) =>
+  JSON.stringify({ version: EXPORT_VERSION, personas: personas.map(({ id, name, systemPrompt, mode, voice, temperature }) =>
+    ({ id, name, systemPrompt, mode, voice, temperature })) }, null, 2);
+
+// Checks one imported entry. Unknown voices and out-of-range temperatures fall
+// back to defaults; a missing name or prompt makes the whole file invalid.
+const toPersona = (value: unknown, index: number): Persona => {
+  const entry = (value ?? {}) as Partial<Record<keyof Persona, unknown>>;
+  if (typeof entry.name !== 'string' || !entry.name.trim()) throw new Error(`Persona ${index + 1} has no name.`);
+  if (typeof entry.systemPrompt !== 'string') throw new Error(`Persona "${entry.name}" has no system prompt.`);
+  const temperature = typeof entry.temperature === 'number' ? entry.temperature : DEFAULT_TEMPERATURE;
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+    name: entry.name.trim(),
+    systemPrompt: entry.systemPrompt,
+    mode: Object.values(AppMode).includes(entry.mode as AppMode) ? entry.mode as AppMode : AppMode.FLASH,
+    voice: PERSONA_VOICES.includes(entry.voice as string) ? entry.voice as string : DEFAULT_VOICE,
+    temperature: Math.min(2, Math.max(0, temperature)),
+  };
+};
+
+// Saves the personas in an exported file and returns them. Personas keep their
+// ids, so importing a newer copy of a shared file updates them in place.
+export const importPersonas = async (json: string): Promise<Persona[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const entries = Array.isArray(data) ? data : (data as { personas?: unknown })?.personas;
+  if (!Array.isArray(entries)) throw new Error('The file has no list of personas.');
+  const personas = entries.map(toPersona);
+  for (const persona of personas) await savePersona(persona);
+  return personas;
+};
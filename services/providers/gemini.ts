@@ -0,0 +1,421 @@
+import { EndSensitivity, FinishReason, GoogleGenAI, GenerateContentParameters, GenerateContentResponse, FileState, GenerateVideosOperation, GeneratedVideo, HarmBlockThreshold, HarmCategory, Modality, PersonGeneration, StartSensitivity, VideoGenerationReferenceType } from "@google/genai";
+import { AppMode, FileData, ImageRequest, LiveModel, ResponseConfig, SafetyCategory, SafetyThreshold, Source, TokenCounts, VideoQuality } from '../../types';
+import { ErrorKind, ModelError } from '../errors';
+import { ModelProvider, TextRequest, TextResult } from './types';
+
+const MODELS = {
+  image: 'imagen-4.0-generate-001',
+  edit: 'gemini-2.5-flash-image',
+  video: {
+    fast: 'veo-3.1-fast-generate-preview',
+    quality: 'veo-3.1-generate-preview',
+  } as Record<VideoQuality, string>,
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: {
+    'native-audio': 'gemini-2.5-flash-native-audio-preview-09-2025',
+    'half-cascade': 'gemini-live-2.5-flash-preview',
+  } as Record<LiveModel, string>,
+};
+
+const DEFAULT_VOICES = { tts: 'Kore', live: 'Zephyr' };
+const DEFAULT_LIVE_INSTRUCTION = 'You are a friendly and helpful AI assistant. Be concise.';
+
+const MASK_INSTRUCTION = 'The last image is a mask, not part of the picture. Change only the areas that are white in the mask and keep the areas that are black exactly as they are. Return the full image at its original size.';
+
+const PERSON_GENERATION: Record<ImageRequest['personGeneration'], PersonGeneration> = {
+  dont_allow: PersonGeneration.DONT_ALLOW,
+  allow_adult: PersonGeneration.ALLOW_ADULT,
+  allow_all: PersonGeneration.ALLOW_ALL,
+};
+
+const START_SENSITIVITIES = { high: StartSensitivity.START_SENSITIVITY_HIGH, low: StartSensitivity.START_SENSITIVITY_LOW };
+const END_SENSITIVITIES = { high: EndSensitivity.END_SENSITIVITY_HIGH, low: EndSensitivity.END_SENSITIVITY_LOW };
+
+let ai: GoogleGenAI;
+// Affective dialog and proactive audio are only served by the v1alpha API.
+let alphaAI: GoogleGenAI;
+
+const getAI = () => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+  }
+  return ai;
+};
+
+const getAlphaAI = () => {
+  if (!alphaAI) {
+    alphaAI = new GoogleGenAI({ apiKey: process.env.API_KEY as string, httpOptions: { apiVersion: 'v1alpha' } });
+  }
+  return alphaAI;
+};
+
+const textModel = (mode: AppMode) => mode === AppMode.SEARCH ? AppMode.FLASH : mode;
+
+const PRO_THINKING_BUDGET = 32768;
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hate: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexual: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerous: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const HARM_THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  none: HarmBlockThreshold.BLOCK_NONE,
+  high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  medium: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  low: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+// The budgets each mode's model accepts, besides 0 (off) and -1 (dynamic).
+const THINKING_BUDGET_RANGES: Record<AppMode, [min: number, max: number]> = {
+  [AppMode.LITE]: [512, 24576],
+  [AppMode.FLASH]: [1, 24576],
+  [AppMode.PRO]: [128, 32768],
+  [AppMode.SEARCH]: [1, 24576],
+};
+
+// Pro can't turn thinking off, so "off" becomes dynamic there; without a
+// setting it gets a large budget. Custom budgets are clamped to the model's range.
+const thinkingBudgetFor = (mode: AppMode, budget?: number) => {
+  if (mode === AppMode.PRO && budget === undefined) return PRO_THINKING_BUDGET;
+  if (mode === AppMode.PRO && budget === 0) return -1;
+  if (budget === undefined || budget <= 0) return budget;
+  const [min, max] = THINKING_BUDGET_RANGES[mode];
+  return Math.min(max, Math.max(min, budget));
+};
+
+// The settings a request is sent with, which is also what its response shows.
+const appliedConfig = ({ mode, systemInstruction, temperature, topP, topK, maxOutputTokens, stopSequences, thinkingBudget, includeThoughts, safety }: TextRequest): ResponseConfig => {
+  const budget = thinkingBudgetFor(mode, thinkingBudget);
+  return {
+    model: textModel(mode),
+    ...(temperature !== undefined && { temperature }),
+    ...(topP !== undefined && { topP }),
+    ...(topK !== undefined && { topK }),
+    ...(maxOutputTokens && { maxOutputTokens }),
+    ...(stopSequences?.length && { stopSequences }),
+    ...(budget !== undefined && { thinkingBudget: budget }),
+    ...(includeThoughts && { includeThoughts }),
+    ...(safety && Object.keys(safety).length > 0 && { safety }),
+    ...(systemInstruction && { hasSystemInstruction: true }),
+  };
+};
+
+const toParams = (request: TextRequest): GenerateContentParameters => {
+  const { model, thinkingBudget, includeThoughts, safety, hasSystemInstruction, ...settings } = appliedConfig(request);
+  return {
+    model,
+    contents: request.contents,
+    config: {
+      ...settings,
+      ...(request.systemInstruction && { systemInstruction: request.systemInstruction }),
+      ...((thinkingBudget !== undefined || includeThoughts) && {
+        thinkingConfig: { thinkingBudget, ...(includeThoughts && { includeThoughts }) },
+      }),
+      ...(safety && {
+        safetySettings: (Object.entries(safety) as [SafetyCategory, SafetyThreshold][])
+          .map(([category, threshold]) => ({ category: HARM_CATEGORIES[category], threshold: HARM_THRESHOLDS[threshold] })),
+      }),
+      ...(request.mode === AppMode.SEARCH && { tools: [{ googleSearch: {} }] }),
+      ...(request.signal && { abortSignal: request.signal }),
+    },
+  };
+};
+
+const extractSources = (response: GenerateContentResponse): Source[] | undefined =>
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(chunk => ({
+    uri: chunk.web?.uri || chunk.maps?.uri || '',
+    title: chunk.web?.title || chunk.maps?.title || '',
+  })).filter(s => s.uri);
+
+const SAFETY_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+]);
+
+// Blocked prompts and responses come back as successful calls; surface them as errors.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ModelError(ErrorKind.SAFETY, `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.has(finishReason)) {
+    throw new ModelError(ErrorKind.SAFETY, `Response blocked: ${finishReason}`);
+  }
+};
+
+const tokenCounts = ({ usageMetadata }: GenerateContentResponse): TokenCounts | undefined => usageMetadata && {
+  inputTokens: usageMetadata.promptTokenCount,
+  outputTokens: usageMetadata.candidatesTokenCount,
+  thinkingTokens: usageMetadata.thoughtsTokenCount,
+};
+
+// `modelVersion` names the model that actually served the request. Thought
+// parts are left out of `response.text` and returned separately.
+const toResult = (response: GenerateContentResponse, config: ResponseConfig): TextResult => {
+  assertNotBlocked(response);
+  const thoughts = response.candidates?.[0]?.content?.parts?.filter(part => part.thought && part.text).map(part => part.text).join('');
+  const thoughtsTokenCount = response.usageMetadata?.thoughtsTokenCount;
+  const tokens = tokenCounts(response);
+  return {
+    text: response.text ?? '',
+    sources: extractSources(response),
+    config: { ...config, model: response.modelVersion ?? config.model },
+    ...(thoughts && { thoughts }),
+    ...(thoughtsTokenCount !== undefined && { thoughtsTokenCount }),
+    ...(tokens && { tokens }),
+  };
+};
+
+// Uploaded videos are processed before they can be used.
+const FILE_POLL_INTERVAL = 2000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const base64ToBlob = (base64: string, mimeType: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const toImage = (file: FileData) => ({ imageBytes: file.base64, mimeType: file.mimeType });
+
+const downloadVideo = async ({ video }: GeneratedVideo) => {
+    const response = await fetch(`${video.uri}&key=${process.env.API_KEY}`);
+    if (!response.ok) {
+        throw new Error(`Video download failed with status ${response.status}.`);
+    }
+    return { blob: await response.blob(), uri: video.uri };
+};
+
+export const geminiProvider: ModelProvider = {
+  name: 'gemini',
+  models: MODELS,
+
+  resetCredentials: () => {
+    ai = undefined;
+    alphaAI = undefined;
+  },
+
+  generateText: async (request) => {
+    const ai = getAI();
+    return toResult(await ai.models.generateContent(toParams(request)), appliedConfig(request));
+  },
+
+  generateTextStream: async (request) => {
+    const ai = getAI();
+    const stream = await ai.models.generateContentStream(toParams(request));
+    const config = appliedConfig(request);
+    return (async function* () {
+      for await (const chunk of stream) {
+        yield toResult(chunk, config);
+      }
+    })();
+  },
+
+  uploadFile: async (file) => {
+    const ai = getAI();
+    let uploaded = await ai.files.upload({
+      file: base64ToBlob(file.base64, file.mimeType),
+      config: { mimeType: file.mimeType, displayName: file.name },
+    });
+    while (uploaded.state === FileState.PROCESSING) {
+      await wait(FILE_POLL_INTERVAL);
+      uploaded = await ai.files.get({ name: uploaded.name });
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+      throw new Error(uploaded.error?.message ?? `Uploading ${file.name} failed.`);
+    }
+    return {
+      uri: uploaded.uri,
+      mimeType: uploaded.mimeType ?? file.mimeType,
+      ...(uploaded.expirationTime && { expiresAt: Date.parse(uploaded.expirationTime) }),
+    };
+  },
+
+  generateImage: async (request) => {
+    const ai = getAI();
+    const response = await ai.models.generateImages({
+      model: MODELS.image,
+      prompt: request.prompt,
+      config: {
+        numberOfImages: request.numberOfImages,
+        outputMimeType: request.outputMimeType,
+        aspectRatio: request.aspectRatio,
+        personGeneration: PERSON_GENERATION[request.personGeneration],
+        ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+        ...(request.seed !== undefined && { seed: request.seed }),
+        includeRaiReason: true,
+      },
+    });
+    const images = response.generatedImages?.filter(generated => generated.image?.imageBytes) ?? [];
+    if (images.length === 0) {
+      const filtered = response.generatedImages?.find(generated => generated.raiFilteredReason);
+      throw new ModelError(ErrorKind.SAFETY, filtered?.raiFilteredReason ?? "The image was filtered by safety settings.");
+    }
+    return images.map(({ image }) => ({ base64: image.imageBytes, mimeType: image.mimeType ?? request.outputMimeType }));
+  },
+
+  // The image model has no mask parameter, so the mask is sent as one more
+  // image with instructions on how to read it.
+  editImage: async (prompt, images, mask) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.edit,
+      contents: {
+        parts: [
+          ...[...images, ...(mask ? [mask] : [])].map(image => ({ inlineData: { data: image.base64, mimeType: image.mimeType } })),
+          { text: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+      },
+    });
+
+    assertNotBlocked(response);
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        return { base64: part.inlineData.data, tokens: tokenCounts(response) };
+      }
+    }
+    throw new Error("No edited image found in response");
+  },
+
+  startVideo: async (request) => {
+    const ai = getAI();
+    const { prompt, image, extendVideoUri, lastFrame, referenceImages } = request;
+    const operation = await ai.models.generateVideos({
+        model: MODELS.video[request.quality],
+        ...(prompt && { prompt }),
+        ...(image && { image: toImage(image) }),
+        ...(extendVideoUri && { video: { uri: extendVideoUri } }),
+        config: {
+            numberOfVideos: request.numberOfVideos,
+            resolution: request.resolution,
+            aspectRatio: request.aspectRatio,
+            ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+            ...(request.seed !== undefined && { seed: request.seed }),
+            ...(lastFrame && { lastFrame: toImage(lastFrame) }),
+            ...(referenceImages?.length && {
+              referenceImages: referenceImages.map(ref => ({ image: toImage(ref), referenceType: VideoGenerationReferenceType.ASSET })),
+            }),
+        }
+    });
+    if (!operation.name) {
+        throw new Error("Video generation started but no operation name was returned.");
+    }
+    return operation.name;
+  },
+
+  // The SDK has no call for this, so it goes to the REST endpoint for
+  // long-running operations.
+  cancelVideo: async (operationName) => {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/${operationName}:cancel`, {
+        method: 'POST',
+        headers: { 'x-goog-api-key': process.env.API_KEY as string },
+    });
+    if (!response.ok) throw new Error(`Cancelling the video failed with status ${response.status}.`);
+  },
+
+  pollVideo: async (operationName) => {
+    const ai = getAI();
+    const pending = new GenerateVideosOperation();
+    pending.name = operationName;
+    const operation = await ai.operations.getVideosOperation({ operation: pending });
+
+    if (!operation.done) {
+        const progress = operation.metadata?.progressPercent;
+        return { done: false, ...(typeof progress === 'number' && { progress: progress / 100 }) };
+    }
+    if (operation.error) {
+        throw new Error(String(operation.error.message ?? "Video generation failed."));
+    }
+    const generated = operation.response?.generatedVideos?.filter(v => v.video?.uri) ?? [];
+    if (generated.length === 0) {
+        if (operation.response?.raiMediaFilteredCount) {
+            throw new ModelError(ErrorKind.SAFETY, operation.response.raiMediaFilteredReasons?.[0] ?? "The video was filtered by safety settings.");
+        }
+        throw new Error("Video generation succeeded but no download link was provided.");
+    }
+    return { done: true, videos: await Promise.all(generated.map(downloadVideo)) };
+  },
+
+  textToSpeech: async (text, voice = DEFAULT_VOICES.tts) => {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: MODELS.tts,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+    return { audio: response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data, tokens: tokenCounts(response) };
+  },
+
+  connectLive: async (callbacks, options = {}) => {
+    const { model = 'native-audio', responseModality = 'audio', startSensitivity, endSensitivity, silenceDurationMs } = options;
+    const alpha = options.affectiveDialog || options.proactiveAudio;
+    const ai = alpha ? getAlphaAI() : getAI();
+    const session = await ai.live.connect({
+        model: MODELS.live[model],
+        callbacks: {
+            onopen: callbacks.onOpen,
+            onmessage: callbacks.onMessage,
+            onerror: callbacks.onError,
+            onclose: callbacks.onClose,
+        },
+        config: {
+            inputAudioTranscription: {},
+            ...(responseModality === 'text' ? { responseModalities: [Modality.TEXT] } : {
+                responseModalities: [Modality.AUDIO],
+                outputAudioTranscription: {},
+                speechConfig: {
+                    voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice ?? DEFAULT_VOICES.live } },
+                    ...(options.languageCode && { languageCode: options.languageCode }),
+                },
+            }),
+            systemInstruction: options.systemInstruction || DEFAULT_LIVE_INSTRUCTION,
+            ...(options.temperature !== undefined && { temperature: options.temperature }),
+            ...(options.affectiveDialog && { enableAffectiveDialog: true }),
+            ...(options.proactiveAudio && { proactivity: { proactiveAudio: true } }),
+            realtimeInputConfig: {
+                automaticActivityDetection: {
+                    ...(startSensitivity && startSensitivity !== 'default' && { startOfSpeechSensitivity: START_SENSITIVITIES[startSensitivity] }),
+                    ...(endSensitivity && endSensitivity !== 'default' && { endOfSpeechSensitivity: END_SENSITIVITIES[endSensitivity] }),
+                    ...(silenceDurationMs && { silenceDurationMs }),
+                },
+            },
+            ...(options.tools?.length && {
+                tools: [{
+                    functionDeclarations: options.tools.map(({ name, description, parameters }) => ({
+                        name, description, parametersJsonSchema: parameters,
+                    })),
+                }],
+            }),
+            // The server sends handles for resuming after a dropped connection,
+            // and long sessions drop their oldest turns instead of ending.
+            sessionResumption: { handle: options.resumptionHandle },
+            contextWindowCompression: { slidingWindow: {} },
+        },
+    });
+    // A resumed session already has its context.
+    if (options.context?.length && !options.resumptionHandle) {
+        session.sendClientContent({ turns: options.context, turnComplete: false });
+    }
+    return session;
+  },
+};
@@ -0,0 +1,25 @@
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { ModelProvider } from './types';
+
+export type { EditResult, ImageResult, LiveCallbacks, LiveOptions, LiveSession, ModelProvider, ProviderModels, SpeechResult, TextRequest, TextResult, TextSettings, ToolDeclaration, ToolResponse, VideoOperationStatus } from './types';
+
+const providers: Record<string, ModelProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+let provider: ModelProvider;
+
+// Picks the backend named by MODEL_PROVIDER (see .env.local), defaulting to Gemini.
+export const getProvider = () => {
+  if (!provider) {
+    const name = process.env.MODEL_PROVIDER || 'gemini';
+    provider = providers[name];
+    if (!provider) {
+      console.warn(`Unknown MODEL_PROVIDER "${name}", falling back to gemini.`);
+      provider = geminiProvider;
+    }
+  }
+  return provider;
+};
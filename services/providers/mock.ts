@@ -0,0 +1,441 @@
+import { Content, LiveServerContent, LiveServerMessage, LiveServerSessionResumptionUpdate, LiveServerToolCall } from "@google/genai";
+import { AppMode, AspectRatio, FileData, ImageRequest, ResponseConfig, TokenCounts, VideoAspectRatio, VideoRequest } from '../../types';
+import { ModelProvider, TextRequest, TextResult } from './types';
+
+// A deterministic, offline stand-in for a real backend. The same prompt always
+// produces the same text, image colors and audio, so the UI can be developed
+// and demoed without an API key or network.
+
+const STREAM_CHUNK_DELAY = 40;
+const VIDEO_DURATION = 2000;
+// How long a mock video operation stays pending.
+const VIDEO_JOB_DURATION = 15000;
+const TTS_SAMPLE_RATE = 24000;
+// Microphone chunks (~256ms each) to receive before answering in a live
+// session, unless the client ends the audio stream first.
+const LIVE_TURN_CHUNKS = 20;
+// Every this many live turns, the mock calls a tool instead of answering.
+const LIVE_TOOL_TURN_INTERVAL = 3;
+// Stand-ins for the Gemini models, named after them so usage gets priced like theirs.
+const MODELS = {
+  image: 'mock-imagen-4.0-generate-001',
+  edit: 'mock-gemini-2.5-flash-image',
+  video: { fast: 'mock-veo-3.1-fast-generate-preview', quality: 'mock-veo-3.1-generate-preview' },
+  tts: 'mock-gemini-2.5-flash-preview-tts',
+};
+// Tokens a generated image or a second of speech counts as.
+const IMAGE_TOKENS = 1290;
+const SPEECH_TOKENS_PER_SECOND = 25;
+
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// The prompt is the last text part; earlier ones are instructions.
+const lastUserText = (contents: Content[]) => {
+  const turn = [...contents].reverse().find(c => c.role === 'user');
+  return turn?.parts?.filter(p => p.text).pop()?.text?.trim() ?? '';
+};
+
+// Mime types of the files in the latest user turn.
+const lastUserAttachments = (contents: Content[]) => {
+  const turn = [...contents].reverse().find(c => c.role === 'user');
+  return (turn?.parts ?? [])
+    .map(p => p.inlineData?.mimeType ?? p.fileData?.mimeType)
+    .filter((mimeType): mimeType is string => !!mimeType);
+};
+
+// About four characters per token.
+const approxTokens = (text: string) => Math.ceil(text.length / 4);
+
+const mockTokens = (contents: Content[], text: string, thinkingTokens?: number): TokenCounts => ({
+  inputTokens: contents.reduce((sum, c) => sum + (c.parts ?? []).reduce((n, p) => n + approxTokens(p.text ?? ''), 0), 0),
+  outputTokens: approxTokens(text),
+  ...(thinkingTokens !== undefined && { thinkingTokens }),
+});
+
+// Echoes the settings back, as if the model applied all of them.
+const mockConfig = ({ mode, contents, signal, systemInstruction, ...settings }: TextRequest): ResponseConfig => ({
+  model: `mock-${mode}`,
+  ...Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+  ...(systemInstruction && { hasSystemInstruction: true }),
+});
+
+// Pretend reasoning, for requests where the model would think. The summary is
+// only returned when asked for; the token count always is.
+const cannedThoughts = ({ mode, contents, thinkingBudget, includeThoughts }: TextRequest): Pick<TextResult, 'thoughts' | 'thoughtsTokenCount'> => {
+  const thinks = mode === AppMode.PRO || (thinkingBudget !== undefined && thinkingBudget !== 0);
+  if (!thinks && !includeThoughts) return {};
+  const thoughts = [
+    '**Reading the request**',
+    '',
+    `The user wrote "${lastUserText(contents) || 'nothing'}", so a short echo of it will do.`,
+    '',
+    '**Planning the answer**',
+    '',
+    'No real model is involved, so the reply states that it comes from the mock provider.',
+  ].join('\n');
+  return {
+    ...(includeThoughts && { thoughts }),
+    thoughtsTokenCount: Math.ceil(thoughts.length / 4),
+  };
+};
+
+const cannedReply = (contents: Content[], mode: AppMode, systemInstruction?: string): TextResult => {
+  const prompt = lastUserText(contents);
+  const turns = contents.filter(c => c.role === 'user').length;
+  const attachments = lastUserAttachments(contents);
+  const hasTimedMedia = attachments.some(type => type.startsWith('video/') || type.startsWith('audio/'));
+  const text = [
+    `**Mock reply** (${mode}, turn ${turns})`,
+    '',
+    prompt ? `You said: "${prompt}"` : 'You sent an attachment without text.',
+    ...(systemInstruction ? ['', `Following the system instruction: "${systemInstruction.length > 80 ? `${systemInstruction.slice(0, 80)}…` : systemInstruction}"`] : []),
+    ...(attachments.length ? ['', `Attachments received: ${attachments.join(', ')}.`] : []),
+    ...(hasTimedMedia ? ['', 'Something happens at 00:01, and it ends around 00:03.'] : []),
+    '',
+    mode === AppMode.SEARCH
+      ? 'This answer is grounded in a pretend search result [1].'
+      : 'This response comes from the local mock provider; no API key or network was used.',
+  ].join('\n');
+  return {
+    text,
+    ...(mode === AppMode.SEARCH && { sources: [{ uri: 'https://example.com/mock-source', title: 'Mock search result' }] }),
+  };
+};
+
+const dimensions = (aspectRatio: AspectRatio | VideoAspectRatio, longSide: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: longSide, height: Math.round(longSide * h / w) }
+    : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(0, height - 48, width, 48);
+  ctx.fillStyle = '#fff';
+  ctx.font = '16px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(text.length > 60 ? `${text.slice(0, 60)}…` : text, width / 2, height - 18, width - 16);
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, prompt: string, width: number, height: number, frame = 0) => {
+  const hue = hash(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${(hue + frame) % 360}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60 + frame) % 360}, 70%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  drawCaption(ctx, prompt || 'Mock image', width, height);
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d') as CanvasRenderingContext2D };
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not load the image."));
+    img.src = src;
+  });
+
+// Turns a black-and-white mask into one that is opaque where it was white.
+const maskToAlpha = async (mask: FileData) => {
+  const img = await loadImage(`data:${mask.mimeType};base64,${mask.base64}`);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+// Variants of one request shift the hue; the seed picks the starting hue, so
+// the same seed reproduces the same images.
+const renderImage = ({ prompt, aspectRatio, outputMimeType, seed }: ImageRequest, index: number) => {
+  const { width, height } = dimensions(aspectRatio, 512);
+  const { canvas, ctx } = createCanvas(width, height);
+  drawPlaceholder(ctx, prompt, width, height, (seed ?? 0) + index * 40);
+  return { base64: canvas.toDataURL(outputMimeType).split(',')[1], mimeType: outputMimeType };
+};
+
+// A short sine tone whose pitch depends on the text.
+const tone = (text: string, seconds: number) => {
+  const frequency = 220 + hash(text) % 440;
+  const samples = new Int16Array(Math.round(TTS_SAMPLE_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / 2400, (samples.length - i) / 2400);
+    samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / TTS_SAMPLE_RATE) * 8000 * fade);
+  }
+  return bytesToBase64(new Uint8Array(samples.buffer));
+};
+
+type MockVideoRequest = Pick<VideoRequest, 'prompt' | 'image' | 'aspectRatio'> & Partial<VideoRequest>;
+
+const videoOperations = new Map<string, MockVideoRequest & { startedAt: number }>();
+
+// Candidates differ by their caption; extensions and seeds show up in it too.
+const renderVideo = async ({ prompt, image, aspectRatio, seed, extendVideoUri }: MockVideoRequest, index: number) => {
+  const { width, height } = dimensions(aspectRatio, 480);
+  const { canvas, ctx } = createCanvas(width, height);
+  const still = image ? await loadImage(`data:${image.mimeType};base64,${image.base64}`) : null;
+  const label = [
+    prompt || 'Mock video',
+    extendVideoUri && '(extended)',
+    seed !== undefined && `seed ${seed}`,
+    index > 0 && `#${index + 1}`,
+  ].filter(Boolean).join(' ');
+
+  const recorder = new MediaRecorder(canvas.captureStream(24), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  let frame = 0;
+  const draw = () => {
+    if (still) {
+      const scale = 1 + frame / 400;
+      ctx.drawImage(still, 0, 0, width * scale, height * scale);
+      drawCaption(ctx, label, width, height);
+    } else {
+      drawPlaceholder(ctx, label, width, height, frame);
+    }
+    frame++;
+  };
+  draw();
+  recorder.start();
+  const timer = setInterval(draw, 1000 / 24);
+  await delay(VIDEO_DURATION);
+  clearInterval(timer);
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+const liveMessage = (serverContent: LiveServerContent) =>
+  Object.assign(new LiveServerMessage(), { serverContent });
+
+const liveToolCall = (toolCall: LiveServerToolCall) =>
+  Object.assign(new LiveServerMessage(), { toolCall });
+
+const liveResumptionUpdate = (sessionResumptionUpdate: LiveServerSessionResumptionUpdate) =>
+  Object.assign(new LiveServerMessage(), { sessionResumptionUpdate });
+
+// Placeholder values for a tool's required parameters: the first allowed value,
+// a small number or a fixed word.
+const mockArgs = (schema: Record<string, unknown>) => {
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string; enum?: unknown[]; minimum?: number }>;
+  const required = (schema.required ?? []) as string[];
+  return Object.fromEntries(required.map(name => {
+    const { type, enum: values, minimum } = properties[name] ?? {};
+    if (values?.length) return [name, values[0]];
+    if (type === 'number' || type === 'integer') return [name, Math.max(minimum ?? 0, 5)];
+    return [name, 'mock'];
+  }));
+};
+
+export const mockProvider: ModelProvider = {
+  name: 'mock',
+  models: MODELS,
+
+  generateText: async (request) => {
+    await delay(300, request.signal);
+    const reply = cannedReply(request.contents, request.mode, request.systemInstruction);
+    const thoughts = cannedThoughts(request);
+    return { ...reply, ...thoughts, config: mockConfig(request), tokens: mockTokens(request.contents, reply.text, thoughts.thoughtsTokenCount) };
+  },
+
+  generateTextStream: async (request) => {
+    const { text, sources } = cannedReply(request.contents, request.mode, request.systemInstruction);
+    const config = mockConfig(request);
+    const { thoughts, thoughtsTokenCount } = cannedThoughts(request);
+    const tokens = mockTokens(request.contents, text, thoughtsTokenCount);
+    const words = text.split(/(?<=\s)/);
+    return (async function* () {
+      for (const word of thoughts?.split(/(?<=\s)/) ?? []) {
+        await delay(STREAM_CHUNK_DELAY, request.signal);
+        yield { text: '', thoughts: word };
+      }
+      for (let i = 0; i < words.length; i++) {
+        await delay(STREAM_CHUNK_DELAY, request.signal);
+        yield { text: words[i], ...(i === words.length - 1 && { sources, config, thoughtsTokenCount, tokens }) };
+      }
+    })();
+  },
+
+  uploadFile: async (file) => {
+    await delay(800);
+    return { uri: `mock-files/${crypto.randomUUID()}`, mimeType: file.mimeType };
+  },
+
+  generateImage: async (request) => {
+    await delay(500);
+    return Array.from({ length: request.numberOfImages }, (_, i) => renderImage(request, i));
+  },
+
+  // Tints the first image (only inside the mask, if given); any others are
+  // inset along the top edge.
+  editImage: async (prompt, images, mask) => {
+    await delay(500);
+    const [source, ...extras] = await Promise.all(images.map(image => loadImage(`data:${image.mimeType};base64,${image.base64}`)));
+    const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+    ctx.drawImage(source, 0, 0);
+    const inset = canvas.width / 4;
+    extras.forEach((extra, i) => ctx.drawImage(extra, 8 + i * (inset + 8), 8, inset, inset * extra.naturalHeight / extra.naturalWidth));
+    const tint = createCanvas(canvas.width, canvas.height);
+    if (mask) {
+      tint.ctx.drawImage(await maskToAlpha(mask), 0, 0, canvas.width, canvas.height);
+      tint.ctx.globalCompositeOperation = 'source-in';
+    }
+    tint.ctx.fillStyle = `hsla(${hash(prompt) % 360}, 70%, 50%, 0.3)`;
+    tint.ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(tint.canvas, 0, 0);
+    drawCaption(ctx, prompt, canvas.width, canvas.height);
+    return {
+      base64: canvas.toDataURL('image/png').split(',')[1],
+      tokens: { inputTokens: approxTokens(prompt) + images.length * IMAGE_TOKENS, outputTokens: IMAGE_TOKENS },
+    };
+  },
+
+  startVideo: async (request) => {
+    await delay(300);
+    const name = `mock-operations/${crypto.randomUUID()}`;
+    videoOperations.set(name, { ...request, startedAt: Date.now() });
+    return name;
+  },
+
+  cancelVideo: async (operationName) => {
+    videoOperations.delete(operationName);
+  },
+
+  // Operations started before a reload are forgotten; they finish with a generic video.
+  pollVideo: async (operationName) => {
+    const operation = videoOperations.get(operationName)
+      ?? { prompt: 'Mock video', image: null, aspectRatio: '16:9', startedAt: 0 };
+    const progress = (Date.now() - operation.startedAt) / VIDEO_JOB_DURATION;
+    if (progress < 1) return { done: false, progress };
+
+    videoOperations.delete(operationName);
+    const videos = [];
+    for (let i = 0; i < (operation.numberOfVideos ?? 1); i++) {
+      videos.push({ blob: await renderVideo(operation, i), uri: `${operationName}/videos/${i}` });
+    }
+    return { done: true, videos };
+  },
+
+  textToSpeech: async (text) => {
+    await delay(200);
+    const seconds = Math.min(2, 0.3 + text.length / 100);
+    return {
+      audio: tone(text, seconds),
+      tokens: { inputTokens: approxTokens(text), outputTokens: Math.round(seconds * SPEECH_TOKENS_PER_SECOND) },
+    };
+  },
+
+  connectLive: async (callbacks, options = {}) => {
+    let closed = false;
+    let chunks = 0;
+    // A resumed session carries on counting from its handle.
+    let turns = Number(options.resumptionHandle?.match(/^mock-session-(\d+)$/)?.[1] ?? 0);
+    let frames = 0;
+    let toolCalls = 0;
+    let contextTurns = options.resumptionHandle ? 0 : options.context?.length ?? 0;
+    const tools = options.tools ?? [];
+    setTimeout(() => { if (!closed) callbacks.onOpen(); }, 100);
+
+    const speak = (reply: string) => {
+      if (contextTurns) {
+        reply = `I can see ${contextTurns} earlier turns. ${reply}`;
+        contextTurns = 0;
+      }
+      if (options.responseModality === 'text') {
+        callbacks.onMessage(liveMessage({ modelTurn: { parts: [{ text: reply }] } }));
+      } else {
+        callbacks.onMessage(liveMessage({ outputTranscription: { text: reply } }));
+        callbacks.onMessage(liveMessage({ modelTurn: { parts: [{ inlineData: { data: tone(reply, 1), mimeType: `audio/pcm;rate=${TTS_SAMPLE_RATE}` } }] } }));
+      }
+      callbacks.onMessage(liveMessage({ turnComplete: true }));
+      callbacks.onMessage(liveResumptionUpdate({ newHandle: `mock-session-${turns}`, resumable: true }));
+    };
+
+    // Every third turn calls one of the offered tools, in turn, and waits for
+    // its response before answering.
+    const respond = () => {
+      turns++;
+      callbacks.onMessage(liveMessage({ inputTranscription: { text: `(mock speech ${turns})` } }));
+      if (tools.length && turns % LIVE_TOOL_TURN_INTERVAL === 0) {
+        const tool = tools[toolCalls++ % tools.length];
+        callbacks.onMessage(liveToolCall({
+          functionCalls: [{ id: `mock-call-${toolCalls}`, name: tool.name, args: mockArgs(tool.parameters) }],
+        }));
+        return;
+      }
+      speak(`This is mock live reply number ${turns}.${frames ? ` I have received ${frames} video frames so far.` : ''}`);
+    };
+
+    return {
+      sendRealtimeInput: (input) => {
+        if (closed) return;
+        if (input.text) {
+          speak(`Noted: ${input.text}`);
+          return;
+        }
+        if (input.video) {
+          frames++;
+          return;
+        }
+        if (input.audioStreamEnd) {
+          if (chunks > 0) respond();
+          chunks = 0;
+          return;
+        }
+        chunks++;
+        if (chunks === LIVE_TURN_CHUNKS) {
+          respond();
+          chunks = 0;
+        }
+      },
+      sendToolResponse: ({ functionResponses }) => {
+        if (closed) return;
+        speak(functionResponses.map(({ name, response }) => `The ${name} tool answered ${JSON.stringify(response).slice(0, 120)}.`).join(' '));
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose(new CloseEvent('close'));
+      },
+    };
+  },
+};
@@ -0,0 +1,136 @@
+import type { Content, LiveServerMessage } from "@google/genai";
+import { AppMode, FileData, GenerationSettings, ImageRequest, LiveSettings, ResponseConfig, Source, TokenCounts, UploadedFile, VideoQuality, VideoRequest } from '../../types';
+
+// How the model should behave, from the conversation's persona and settings.
+export interface TextSettings extends GenerationSettings {
+  systemInstruction?: string;
+}
+
+// Conversation turns use the Gemini `Content` shape ({ role, parts }) as the
+// neutral format; adapters for other backends convert from it.
+export interface TextRequest extends TextSettings {
+  mode: AppMode;
+  contents: Content[];
+  signal?: AbortSignal;
+}
+
+// A full response, or one chunk of a streamed response (where `text` is the delta).
+export interface TextResult {
+  text: string;
+  sources?: Source[];
+  config?: ResponseConfig;
+  // Reasoning summary text (a delta when streamed).
+  thoughts?: string;
+  // Reported once, usually with the last chunk.
+  thoughtsTokenCount?: number;
+  // Running totals when streamed; the last chunk has the final counts.
+  tokens?: TokenCounts;
+}
+
+export interface ImageResult {
+  // Base64-encoded bytes.
+  base64: string;
+  mimeType: string;
+}
+
+export interface EditResult {
+  // Base64-encoded PNG bytes.
+  base64: string;
+  tokens?: TokenCounts;
+}
+
+export interface SpeechResult {
+  // Base64-encoded 16-bit PCM at 24 kHz, mono.
+  audio?: string;
+  tokens?: TokenCounts;
+}
+
+// Models behind the capabilities that don't report which model served them,
+// for pricing their usage.
+export interface ProviderModels {
+  image: string;
+  edit: string;
+  video: Record<VideoQuality, string>;
+  tts: string;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  // Between 0 and 1, when the backend reports it.
+  progress?: number;
+  // Present once the operation is done. `uri` identifies the video to the
+  // backend, for extending it later.
+  videos?: { blob: Blob; uri?: string }[];
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onError: (e: ErrorEvent) => void;
+  onClose: (e: CloseEvent) => void;
+}
+
+// A function the Live model may call, with its parameters as a JSON schema.
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Unset settings use the provider's defaults.
+export interface LiveOptions extends Partial<LiveSettings> {
+  // The persona's sampling temperature, as in text chat.
+  temperature?: number;
+  tools?: ToolDeclaration[];
+  // Picks up an earlier session, context included, instead of starting fresh.
+  resumptionHandle?: string;
+  // Earlier turns to start a fresh session with.
+  context?: Content[];
+}
+
+// The outcome of a tool call, matched to the call by `id`.
+export interface ToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveSession {
+  // `audioStreamEnd` tells the model the microphone paused, so it can answer
+  // without waiting for more audio. `video` takes single image frames; `text`
+  // is for notices from the app rather than the user's words.
+  sendRealtimeInput: (input: {
+    audio?: { data: string; mimeType: string };
+    video?: { data: string; mimeType: string };
+    audioStreamEnd?: boolean;
+    text?: string;
+  }) => void;
+  sendToolResponse: (response: { functionResponses: ToolResponse[] }) => void;
+  close: () => void;
+}
+
+// A backend that can serve every capability of the app. Each adapter owns its
+// model ids; callers only say what they want done.
+export interface ModelProvider {
+  name: string;
+  models: ProviderModels;
+  // Drops cached clients so the next call picks up a newly selected API key.
+  resetCredentials?: () => void;
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  generateTextStream: (request: TextRequest) => Promise<AsyncGenerator<TextResult>>;
+  // Stores a file with the provider so requests can reference it by URI.
+  uploadFile: (file: FileData) => Promise<UploadedFile>;
+  // Returns the variants that passed safety filtering.
+  generateImage: (request: ImageRequest) => Promise<ImageResult[]>;
+  // Edits or combines the images. A mask (white where changes are allowed,
+  // black elsewhere) limits the edit to a region.
+  editImage: (prompt: string, images: FileData[], mask?: FileData) => Promise<EditResult>;
+  // Video generation is a long-running operation. Starting it returns an
+  // operation name that can be polled, even after a reload.
+  startVideo: (request: VideoRequest) => Promise<string>;
+  pollVideo: (operationName: string) => Promise<VideoOperationStatus>;
+  // Asks the backend to stop an operation. Best effort: it may still finish.
+  cancelVideo: (operationName: string) => Promise<void>;
+  textToSpeech: (text: string, voice?: string) => Promise<SpeechResult>;
+  connectLive: (callbacks: LiveCallbacks, options?: LiveOptions) => Promise<LiveSession>;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { UsageRecord } from '../types';
+import { DEFAULT_PRICES, costOf, groupUsage, usageToCsv, videoSeconds } from './usage';
+
+const record = (fields: Partial<UsageRecord>): UsageRecord =>
+  ({ id: crypto.randomUUID(), timestamp: 0, kind: 'text', model: 'gemini-2.5-flash', latencyMs: 1000, cost: 0, ...fields });
+
+describe('costOf', () => {
+  it('prices tokens per million, with thinking billed as output', () => {
+    const usage = { kind: 'text' as const, model: 'gemini-2.5-pro', inputTokens: 1_000_000, outputTokens: 500_000, thinkingTokens: 500_000, latencyMs: 0 };
+    expect(costOf(usage, DEFAULT_PRICES)).toBeCloseTo(1.25 + 10);
+  });
+
+  it('uses the longest matching model key', () => {
+    const lite = { kind: 'text' as const, model: 'models/gemini-2.5-flash-lite-preview', outputTokens: 1_000_000, latencyMs: 0 };
+    expect(costOf(lite, DEFAULT_PRICES)).toBeCloseTo(0.4);
+  });
+
+  it('prices units for per-unit models', () => {
+    const video = { kind: 'video' as const, model: 'veo-3.1-generate-preview', units: videoSeconds({ numberOfVideos: 2 }), latencyMs: 0 };
+    expect(costOf(video, DEFAULT_PRICES)).toBeCloseTo(16 * 0.4);
+  });
+
+  it('costs nothing for unknown models', () => {
+    expect(costOf({ kind: 'text', model: 'other-model', inputTokens: 1000, latencyMs: 0 }, DEFAULT_PRICES)).toBe(0);
+  });
+});
+
+describe('videoSeconds', () => {
+  it('counts extensions as shorter clips', () => {
+    expect(videoSeconds({ numberOfVideos: 1 })).toBe(8);
+    expect(videoSeconds({ numberOfVideos: 1, extendVideoUri: 'uri' })).toBe(7);
+  });
+});
+
+describe('groupUsage', () => {
+  it('totals each group in the order it first appears', () => {
+    const groups = groupUsage([record({ model: 'b', cost: 1 }), record({ model: 'a', cost: 2 }), record({ model: 'b', cost: 3 })], r => r.model);
+    expect(groups.map(({ key, totals }) => [key, totals.calls, totals.cost])).toEqual([['b', 2, 4], ['a', 1, 2]]);
+  });
+});
+
+describe('usageToCsv', () => {
+  it('quotes cells with separators', () => {
+    const csv = usageToCsv([record({ conversationId: 'c1' })], { c1: 'Plans, "draft"' });
+    expect(csv.split('\n')[1]).toContain('"Plans, ""draft"""');
+  });
+
+  it('keeps titles from being read as formulas', () => {
+    const csv = usageToCsv([record({ conversationId: 'c1' })], { c1: '=HYPERLINK("x")' });
+    expect(csv.split('\n')[1]).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(csv).not.toMatch(/,=/);
+  });
+});
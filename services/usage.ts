@@ -0,0 +1,153 @@
+import { Usage, UsageRecord } from '../types';
+import { promisify, readSetting, store, USAGE, writeSetting } from './db';
+
+// Prices in US dollars: per million tokens, or per unit (image or second of
+// video) for models billed that way.
+export interface ModelPrice {
+  input?: number;
+  output?: number;
+  perUnit?: number;
+}
+
+// Keyed by model id. A model is priced by the longest key its id contains, so
+// versioned or prefixed ids still match.
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'imagen-4.0-generate-001': { perUnit: 0.04 },
+  'veo-3.1-fast-generate-preview': { perUnit: 0.15 },
+  'veo-3.1-generate-preview': { perUnit: 0.4 },
+};
+
+// Length of a generated clip, and of what an extension adds to one.
+const VIDEO_SECONDS = 8;
+const EXTENSION_SECONDS = 7;
+
+const PRICES_KEY = 'prices';
+const BUDGET_KEY = 'dailyBudget';
+
+export const getPrices = async () => (await readSetting<PriceTable>(PRICES_KEY)) ?? DEFAULT_PRICES;
+
+export const savePrices = async (prices: PriceTable) => {
+  await writeSetting(PRICES_KEY, prices);
+};
+
+// Daily spending limit in US dollars; unset means no limit.
+export const getDailyBudget = async () => await readSetting<number>(BUDGET_KEY);
+
+export const setDailyBudget = async (limit: number | undefined) => {
+  await writeSetting(BUDGET_KEY, limit);
+};
+
+const priceFor = (model: string, prices: PriceTable): ModelPrice | undefined => {
+  const key = Object.keys(prices)
+    .filter(key => model.includes(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+};
+
+// Thinking tokens are billed as output. Models missing from the table cost 0.
+export const costOf = (usage: Omit<Usage, 'cost'>, prices: PriceTable) => {
+  const price = priceFor(usage.model, prices);
+  if (!price) return 0;
+  const output = (usage.outputTokens ?? 0) + (usage.thinkingTokens ?? 0);
+  return ((usage.inputTokens ?? 0) * (price.input ?? 0) + output * (price.output ?? 0)) / 1e6
+    + (usage.units ?? 0) * (price.perUnit ?? 0);
+};
+
+export const priceUsage = async (usage: Omit<Usage, 'cost'>): Promise<Usage> =>
+  ({ ...usage, cost: costOf(usage, await getPrices()) });
+
+export const videoSeconds = (request: { numberOfVideos: number; extendVideoUri?: string }) =>
+  request.numberOfVideos * (request.extendVideoUri ? EXTENSION_SECONDS : VIDEO_SECONDS);
+
+export const recordUsage = async (usage: Usage, conversationId?: string) => {
+  const record: UsageRecord = { ...usage, id: crypto.randomUUID(), timestamp: Date.now(), ...(conversationId && { conversationId }) };
+  await promisify((await store(USAGE, 'readwrite')).put(record));
+};
+
+// Oldest first.
+export const listUsage = async (since = 0): Promise<UsageRecord[]> =>
+  await promisify<UsageRecord[]>((await store(USAGE)).index('timestamp').getAll(IDBKeyRange.lowerBound(since)));
+
+export const clearUsage = async () => {
+  await promisify((await store(USAGE, 'readwrite')).clear());
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export const totalUsage = (records: Usage[]): UsageTotals => records.reduce((totals, r) => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + (r.inputTokens ?? 0),
+  outputTokens: totals.outputTokens + (r.outputTokens ?? 0),
+  thinkingTokens: totals.thinkingTokens + (r.thinkingTokens ?? 0),
+  latencyMs: totals.latencyMs + r.latencyMs,
+  cost: totals.cost + r.cost,
+}), { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, latencyMs: 0, cost: 0 });
+
+// Totals per group, in the order groups first appear.
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups].map(([key, group]) => ({ key, totals: totalUsage(group) }));
+};
+
+// The local calendar day, as YYYY-MM-DD.
+export const dayOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const startOfToday = () => new Date().setHours(0, 0, 0, 0);
+
+// Returns a warning when spending `estimate` more today would pass the daily budget.
+export const budgetWarning = async (estimate: number) => {
+  const limit = await getDailyBudget();
+  if (limit === undefined) return null;
+  const spent = totalUsage(await listUsage(startOfToday())).cost;
+  if (spent + estimate <= limit) return null;
+  return `This will cost about ${formatCost(estimate)}. You have spent ${formatCost(spent)} of your ${formatCost(limit)} daily budget.`;
+};
+
+export const formatCost = (cost: number) =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Text that starts like a formula is prefixed with a quote, so spreadsheets
+// show it instead of evaluating it (conversation titles come from the chat).
+const csvCell = (value: string | number | undefined) => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// `titles` names conversations by id.
+export const usageToCsv = (records: UsageRecord[], titles: Record<string, string>) => [
+  ['time', 'conversation', 'kind', 'model', 'input_tokens', 'output_tokens', 'thinking_tokens', 'units', 'latency_ms', 'cost_usd'],
+  ...records.map(r => [
+    new Date(r.timestamp).toISOString(),
+    r.conversationId ? titles[r.conversationId] ?? r.conversationId : '',
+    r.kind,
+    r.model,
+    r.inputTokens,
+    r.outputTokens,
+    r.thinkingTokens,
+    r.units,
+    Math.round(r.latencyMs),
+    r.cost.toFixed(6),
+  ]),
+].map(row => row.map(csvCell).join(',')).join('\n');
@@ -0,0 +1,201 @@
+import { Attachment, ChatMessage, ErrorKind, VideoJobState, VideoJobStatus, VideoRequest } from '../types';
+import { promisify, store, VIDEO_JOBS } from './db';
+import { updateStoredMessage } from './conversationStore';
+import { classifyError, describeError, isTransient } from './errors';
+import { cancelVideoOperation, pollVideoOperation, startVideoOperation, videoUsage } from './geminiService';
+import { recordUsage } from './usage';
+
+// Video generation runs as background jobs. Each job is persisted with its
+// operation name, so polling resumes after a reload or a key re-selection
+// instead of starting (and paying for) a new video.
+
+const POLL_INTERVAL = 10000;
+const MAX_CONCURRENT_JOBS = 2;
+
+interface VideoJob {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  request: VideoRequest;
+  status: VideoJobStatus;
+  startedAt: number;
+  operationName?: string;
+  progress?: number;
+}
+
+type Listener = (conversationId: string, messageId: string, update: Partial<ChatMessage>) => void;
+
+const listeners = new Set<Listener>();
+const jobs = new Map<string, VideoJob>();
+const polling = new Set<string>();
+
+const saveJob = async (job: VideoJob) => {
+  await promisify((await store(VIDEO_JOBS, 'readwrite')).put(job));
+};
+
+const deleteJob = async (id: string) => {
+  jobs.delete(id);
+  await promisify((await store(VIDEO_JOBS, 'readwrite')).delete(id));
+};
+
+const jobState = ({ id, status, request, startedAt, progress }: VideoJob): VideoJobState =>
+  ({ id, status, prompt: request.prompt, startedAt, progress });
+
+const pendingUpdate = (job: VideoJob): Partial<ChatMessage> => ({
+  text: job.status === VideoJobStatus.QUEUED
+    ? '📹 Queued. The video will start when another one finishes.'
+    : '📹 Generating video... This may take a few minutes.',
+  isLoading: true,
+  error: undefined,
+  videoJob: jobState(job),
+});
+
+// Tells listeners about a change to the job's message. Terminal states are also
+// written to the stored conversation, which may not be open.
+const publish = async (job: VideoJob, update: Partial<ChatMessage>, persist = false) => {
+  listeners.forEach(listener => listener(job.conversationId, job.messageId, update));
+  if (persist) {
+    await updateStoredMessage(job.conversationId, job.messageId, update);
+  }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const run = async (job: VideoJob) => {
+  polling.add(job.id);
+  job.status = VideoJobStatus.RUNNING;
+  try {
+    if (!job.operationName) {
+      job.startedAt = Date.now();
+      await publish(job, pendingUpdate(job));
+      job.operationName = await startVideoOperation(job.request);
+      // Cancelled while starting: the job is already deleted, so only the new
+      // operation is left to stop.
+      if (job.status !== VideoJobStatus.RUNNING) {
+        await cancelVideoOperation(job.operationName);
+        return;
+      }
+    }
+    await saveJob(job);
+    await publish(job, pendingUpdate(job), true);
+
+    while (job.status === VideoJobStatus.RUNNING) {
+      const status = await pollVideoOperation(job.operationName);
+      if (job.status !== VideoJobStatus.RUNNING) return;
+
+      if (status.done) {
+        job.status = VideoJobStatus.DONE;
+        await deleteJob(job.id);
+        const attachments: Attachment[] = (status.videos ?? []).map(({ blob, uri }, i) => ({
+          url: URL.createObjectURL(blob),
+          mimeType: blob.type || 'video/mp4',
+          name: `video-${i + 1}.${blob.type === 'video/webm' ? 'webm' : 'mp4'}`,
+          size: blob.size,
+          ...(uri && { upload: { uri, mimeType: blob.type || 'video/mp4' } }),
+        }));
+        const usage = await videoUsage(job.request, job.startedAt);
+        recordUsage(usage, job.conversationId).catch(error => console.error("Error recording usage:", error));
+        await publish(job, {
+          attachments,
+          ...(attachments.length > 1 && { selectedVideo: 0 }),
+          text: attachments.length > 1 ? `Here are your ${attachments.length} generated videos.` : `Here is your generated video.`,
+          isLoading: false,
+          videoJob: jobState(job),
+          usage,
+        }, true);
+        return;
+      }
+      job.progress = status.progress;
+      await publish(job, pendingUpdate(job));
+      await wait(POLL_INTERVAL);
+    }
+  } catch (e) {
+    if (job.status !== VideoJobStatus.RUNNING) return;
+    console.error("Error generating video:", e);
+    const error = classifyError(e);
+    // A stale key or a flaky connection leaves the operation itself intact;
+    // anything else means a retry has to start a new one.
+    if (error.kind !== ErrorKind.AUTH && !isTransient(error)) {
+      job.operationName = undefined;
+    }
+    job.status = VideoJobStatus.FAILED;
+    await saveJob(job);
+    await publish(job, {
+      text: `Error generating video: ${error.kind === ErrorKind.UNKNOWN ? error.message : describeError(error)}`,
+      isLoading: false,
+      error: error.kind,
+      videoJob: jobState(job),
+    }, true);
+  } finally {
+    polling.delete(job.id);
+    schedule();
+  }
+};
+
+const schedule = () => {
+  const queued = [...jobs.values()]
+    .filter(job => job.status === VideoJobStatus.QUEUED)
+    .sort((a, b) => a.startedAt - b.startedAt);
+  for (const job of queued) {
+    if (polling.size >= MAX_CONCURRENT_JOBS) break;
+    run(job);
+  }
+};
+
+export const subscribeToVideoJobs = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const queueVideoJob = async (request: {
+  conversationId: string;
+  messageId: string;
+  request: VideoRequest;
+}) => {
+  const job: VideoJob = { ...request, id: crypto.randomUUID(), status: VideoJobStatus.QUEUED, startedAt: Date.now() };
+  jobs.set(job.id, job);
+  await saveJob(job);
+  await publish(job, pendingUpdate(job));
+  schedule();
+};
+
+// Picks up jobs persisted by an earlier session. Call once on startup.
+export const resumeVideoJobs = async () => {
+  const stored = await promisify<VideoJob[]>((await store(VIDEO_JOBS)).getAll());
+  for (const job of stored) {
+    if (jobs.has(job.id)) continue;
+    if (job.status === VideoJobStatus.RUNNING) job.status = VideoJobStatus.QUEUED;
+    jobs.set(job.id, job);
+  }
+  schedule();
+};
+
+// Resumes a failed job, polling its existing operation when there is one.
+export const retryVideoJob = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job || job.status !== VideoJobStatus.FAILED) return;
+  job.status = VideoJobStatus.QUEUED;
+  await saveJob(job);
+  await publish(job, pendingUpdate(job));
+  schedule();
+};
+
+// Stops tracking the job and asks the backend to stop its operation. The
+// backend may still finish (and bill) it; its result is discarded.
+export const cancelVideoJob = async (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  job.status = VideoJobStatus.CANCELLED;
+  if (job.operationName) cancelVideoOperation(job.operationName);
+  await deleteJob(id);
+  await publish(job, { text: 'Video generation cancelled.', isLoading: false, error: undefined, videoJob: jobState(job) }, true);
+};
+
+export const cancelVideoJobsFor = async (conversationId: string) => {
+  for (const job of [...jobs.values()]) {
+    if (job.conversationId !== conversationId) continue;
+    job.status = VideoJobStatus.CANCELLED;
+    if (job.operationName) cancelVideoOperation(job.operationName);
+    await deleteJob(job.id);
+  }
+};
@@ -10,17 +10,184 @@ export interface Source {
   title: string;
 }
 
+export enum ErrorKind {
+  AUTH = 'auth',
+  QUOTA = 'quota',
+  SAFETY = 'safety',
+  NETWORK = 'network',
+  TIMEOUT = 'timeout',
+  SERVER = 'server',
+  INVALID_ARGUMENT = 'invalid-argument',
+  UNKNOWN = 'unknown',
+}
+
+export enum VideoJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// The state of a background video job, as shown on its chat message.
+export interface VideoJobState {
+  id: string;
+  status: VideoJobStatus;
+  prompt: string | null;
+  startedAt: number;
+  // Between 0 and 1, when the provider reports it.
+  progress?: number;
+}
+
+// One image of a message, by its position in `attachments`.
+export interface ImageRef {
+  messageId: string;
+  index: number;
+}
+
+// A file carried by a message: uploaded by the user or produced by a model.
+export interface Attachment {
+  // A data URL or object URL.
+  url: string;
+  mimeType: string;
+  name: string;
+  // In bytes.
+  size?: number;
+  // Where the provider stores the file (an upload, or a generated video), so
+  // later requests can reference it.
+  upload?: UploadedFile;
+  // Shown in the chat but never sent back to the model, like the frames a
+  // video was generated from.
+  displayOnly?: boolean;
+}
+
+export type SafetyCategory = 'harassment' | 'hate' | 'sexual' | 'dangerous';
+// Block none, only high, medium and above, or low and above probability of harm.
+export type SafetyThreshold = 'none' | 'high' | 'medium' | 'low';
+
+// Advanced text generation settings. Anything left out uses the model's default.
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  // Tokens the model may spend thinking: 0 turns thinking off, -1 lets the model decide.
+  thinkingBudget?: number;
+  // Whether replies include summaries of the model's reasoning.
+  includeThoughts?: boolean;
+  safety?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+}
+
+// The model and settings a response was requested with, after defaults and
+// model limits were applied.
+export interface ResponseConfig extends GenerationSettings {
+  model: string;
+  hasSystemInstruction?: boolean;
+}
+
+// Tokens a call consumed, as reported by the provider.
+export interface TokenCounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  thinkingTokens?: number;
+}
+
+export type UsageKind = 'text' | 'image' | 'edit' | 'video' | 'speech';
+
+// What one model call used and roughly cost.
+export interface Usage extends TokenCounts {
+  kind: UsageKind;
+  model: string;
+  // Images generated, or seconds of video, for models priced per unit.
+  units?: number;
+  latencyMs: number;
+  // In US dollars, from the price table at the time of the call.
+  cost: number;
+}
+
+// A call in the usage log, which outlives the conversation it was made in.
+export interface UsageRecord extends Usage {
+  id: string;
+  timestamp: number;
+  // Unset for background calls, such as summarizing history or routing a message.
+  conversationId?: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: ChatRole;
   text: string;
-  image?: string;
-  video?: string;
-  audio?: string;
+  attachments?: Attachment[];
   sources?: Source[];
   isLoading?: boolean;
+  // Set when the request behind this message failed.
+  error?: ErrorKind;
+  videoJob?: VideoJobState;
+  // Images this one was edited from; the first is its previous version.
+  editOf?: ImageRef[];
+  // Set when the edit was limited to a masked region.
+  masked?: boolean;
+  // Index in `attachments` of the chosen candidate when a generation produced several videos.
+  selectedVideo?: number;
+  config?: ResponseConfig;
+  // Summaries of the model's reasoning, kept apart from `text`.
+  thoughts?: string;
+  thoughtsTokenCount?: number;
+  usage?: Usage;
+}
+
+// A function the model called during a Live session. Unset `result` and
+// `error` mean it is still running.
+export interface LiveToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+  // The model gave up on the call, usually because the user interrupted.
+  cancelled?: boolean;
 }
 
+// Native audio models speak more naturally and support affective dialog and
+// proactive audio; half-cascade models can reply in text and take a language.
+export type LiveModel = 'native-audio' | 'half-cascade';
+export type LiveResponseModality = 'audio' | 'text';
+// How readily voice activity detection starts or ends the user's turn.
+export type VadSensitivity = 'default' | 'high' | 'low';
+
+// How a Live session is set up. An unset voice or system instruction falls
+// back to the persona's, then to the provider's default.
+export interface LiveSettings {
+  model: LiveModel;
+  responseModality: LiveResponseModality;
+  voice?: string;
+  // BCP-47 code; chosen automatically when unset.
+  languageCode?: string;
+  systemInstruction?: string;
+  affectiveDialog: boolean;
+  proactiveAudio: boolean;
+  startSensitivity: VadSensitivity;
+  endSensitivity: VadSensitivity;
+  // Silence that ends the user's turn; the server's default when unset.
+  silenceDurationMs?: number;
+}
+
+export interface LivePreset {
+  name: string;
+  settings: LiveSettings;
+}
+
+// One exchange of a Live session, as transcribed.
+export interface LiveTurn {
+  user: string;
+  model: string;
+  toolCalls?: LiveToolCall[];
+}
+
+// What a message sent from the input bar should do.
+export type Intent = 'ask' | 'edit' | 'animate' | 'generate';
+
 export enum AppMode {
   LITE = 'gemini-2.5-flash-lite',
   FLASH = 'gemini-2.5-flash',
@@ -28,11 +195,80 @@ export enum AppMode {
   SEARCH = 'search',
 }
 
+// A reusable assistant setup: how it behaves, which model it starts on and how it sounds.
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  // Mode a conversation switches to when the persona is chosen.
+  mode: AppMode;
+  // Prebuilt voice for Live sessions and for reading replies aloud.
+  voice: string;
+  temperature: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  mode: AppMode;
+  personaId?: string;
+  settings?: GenerationSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: ChatMessage[];
+}
+
 export type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
+export type ImageFormat = "image/png" | "image/jpeg";
+export type PersonGeneration = "dont_allow" | "allow_adult" | "allow_all";
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages: number;
+  outputMimeType: ImageFormat;
+  personGeneration: PersonGeneration;
+  negativePrompt?: string;
+  seed?: number;
+}
+
 export type VideoAspectRatio = "16:9" | "9:16";
+export type VideoResolution = "720p" | "1080p";
+export type VideoQuality = "fast" | "quality";
+
+export interface VideoRequest {
+  prompt: string | null;
+  // First frame of the video.
+  image: FileData | null;
+  aspectRatio: VideoAspectRatio;
+  quality: VideoQuality;
+  resolution: VideoResolution;
+  numberOfVideos: number;
+  negativePrompt?: string;
+  seed?: number;
+  // Assets (characters, objects, scenes) the video should contain.
+  referenceImages?: FileData[];
+  // Last frame, for interpolating from `image` to it.
+  lastFrame?: FileData;
+  // Provider URI of an earlier generated video to continue.
+  extendVideoUri?: string;
+}
 
 export interface FileData {
   base64: string;
   mimeType: string;
   name: string;
+  // Set once a file too large to inline has been uploaded.
+  upload?: UploadedFile;
+}
+
+// A file stored by the provider and referenced by URI instead of being inlined.
+export interface UploadedFile {
+  uri: string;
+  mimeType: string;
+  // Uploads are deleted by the provider after a while.
+  expiresAt?: number;
 }